@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { FeatureMode } from '../types';
+import {
+  BILLED_FEATURES,
+  BILLING_DOCS_URL,
+  getApiKeySource,
+  getStoredApiKey,
+  isAIStudio,
+  maskApiKey,
+  setStoredApiKey,
+} from '../services/apiKey';
+import { modelProvider, resolveProviderId } from '../services/modelProvider';
+import { testApiKey } from '../services/geminiProvider';
+
+const GET_KEY_URL = 'https://aistudio.google.com/apikey';
+
+type KeyStatus = { text: string, isError: boolean } | null;
+
+const SOURCE_TEXT = {
+  stored: (key: string) => `Using your key ${maskApiKey(key)}, saved in this browser.`,
+  build: () => 'Using the key from the app configuration.',
+  none: () => 'No key yet, so the offline mock answers instead of Gemini.',
+};
+
+// Inside AI Studio the host owns key selection; we can only ask it to show its picker.
+const AIStudioKeySelector: React.FC = () => {
+  const [hasSelectedKey, setHasSelectedKey] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    window.aistudio!.hasSelectedApiKey()
+      .then(setHasSelectedKey)
+      .catch(error => console.warn("Could not check the selected API key:", error));
+  }, []);
+
+  const handleSelect = async () => {
+    await window.aistudio!.openSelectKey();
+    // The picker doesn't report what was chosen; assume a key was, as AI Studio recommends.
+    setHasSelectedKey(true);
+  };
+
+  return (
+    <>
+      <p className="text-xs text-gray-400 mb-2">
+        {hasSelectedKey ? 'Using the key you selected in AI Studio.' : 'Select a key from a Google Cloud project to use your own quota.'}
+      </p>
+      <button onClick={handleSelect} className="w-full px-2 py-1.5 text-xs rounded-md border border-gray-600 hover:bg-gray-700">
+        {hasSelectedKey ? 'Change API key' : 'Select API key'}
+      </button>
+    </>
+  );
+};
+
+const StoredKeySelector: React.FC = () => {
+  const [source, setSource] = useState(getApiKeySource);
+  const [input, setInput] = useState('');
+  const [isTesting, setIsTesting] = useState(false);
+  const [status, setStatus] = useState<KeyStatus>(null);
+  // The provider is picked once at startup, so switching from the mock needs a reload.
+  const needsReload = resolveProviderId() !== modelProvider.id;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const apiKey = input.trim();
+    if (!apiKey || isTesting) return;
+    setIsTesting(true);
+    setStatus(null);
+    try {
+      await testApiKey(apiKey);
+      setStoredApiKey(apiKey);
+      setSource(getApiKeySource());
+      setInput('');
+      setStatus({ text: 'Key checked and saved.', isError: false });
+    } catch (error: any) {
+      console.error("API key test failed:", error);
+      setStatus({ text: `That key didn't work: ${error?.message || 'the test request failed.'}`, isError: true });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleRemove = () => {
+    setStoredApiKey('');
+    setSource(getApiKeySource());
+    setStatus({ text: 'Key removed from this browser.', isError: false });
+  };
+
+  return (
+    <>
+      <p className="text-xs text-gray-400 mb-2">
+        {source === 'stored' ? SOURCE_TEXT.stored(getStoredApiKey()) : source === 'build' ? SOURCE_TEXT.build() : SOURCE_TEXT.none()}
+      </p>
+      <form onSubmit={handleSave} className="flex gap-2">
+        <input
+          id="api-key-input"
+          type="password"
+          autoComplete="off"
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          placeholder="Paste a Gemini API key"
+          aria-label="Gemini API key"
+          className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-md p-1.5 text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+          disabled={isTesting}
+        />
+        <button
+          type="submit"
+          disabled={!input.trim() || isTesting}
+          className="px-2 py-1.5 text-xs rounded-md border border-gray-600 hover:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+        >
+          {isTesting ? 'Checking...' : 'Save'}
+        </button>
+      </form>
+      <div className="flex items-center justify-between mt-2 text-xs">
+        <a href={GET_KEY_URL} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">Get a key</a>
+        {source === 'stored' && (
+          <button onClick={handleRemove} className="text-gray-400 hover:text-red-400">Remove key</button>
+        )}
+      </div>
+      {status && (
+        <p className={`mt-2 text-xs ${status.isError ? 'text-red-400' : 'text-green-400'}`}>{status.text}</p>
+      )}
+      {needsReload && (
+        <button onClick={() => window.location.reload()} className="mt-2 w-full px-2 py-1.5 text-xs rounded-md bg-blue-600 hover:bg-blue-700 text-white">
+          Reload to switch to {resolveProviderId() === 'gemini' ? 'Gemini' : 'the offline mock'}
+        </button>
+      )}
+    </>
+  );
+};
+
+const ApiKeySelector: React.FC = () => (
+  <div className="mt-4">
+    <span className="block text-xs font-medium text-gray-400 mb-2">Gemini API key</span>
+    {isAIStudio() ? <AIStudioKeySelector /> : <StoredKeySelector />}
+  </div>
+);
+
+// Warns, before the first request fails, that a feature's model needs billing on the key.
+export const BilledFeatureNotice: React.FC<{ feature: FeatureMode }> = ({ feature }) => {
+  const label = BILLED_FEATURES[feature];
+  if (!label || modelProvider.id !== 'gemini') return null;
+
+  return (
+    <div className="bg-yellow-900/60 border border-yellow-700 text-yellow-100 rounded-lg p-3 mb-6 text-sm flex flex-wrap items-center justify-between gap-2">
+      <span>
+        {label} needs an API key with billing enabled.{' '}
+        <a href={BILLING_DOCS_URL} target="_blank" rel="noopener noreferrer" className="underline hover:text-white">About billing</a>
+      </span>
+      {isAIStudio() && (
+        <button onClick={() => window.aistudio!.openSelectKey()} className="px-2 py-1 text-xs rounded-md bg-yellow-700 hover:bg-yellow-600 text-white">
+          Select a billed key
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ApiKeySelector;
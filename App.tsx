@@ -1,15 +1,52 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { FeatureMode, ChatSession, ChatMessage } from '../types';
+import React, { useState, useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { FeatureMode, ChatSession, ChatMessage, ToolApproval, TokenUsage } from '../types';
 import Chat from './Chat';
 import ImageEditor from './ImageEditor';
-import { EditIcon, MenuIcon, CloseIcon, PlusIcon, TrashIcon, GlobeIcon } from './icons/Icons';
-import { startChat, summarize, generateImage, generateComplexText, fileToBase64 } from '../services/geminiService';
-import { Chat as GenAIChat, GenerateContentResponse } from '@google/genai';
+import ImageGenerator from './ImageGenerator';
+import { EditIcon, MenuIcon, CloseIcon, PlusIcon, GlobeIcon, MicIcon, ImageIcon, LightbulbIcon, ChartIcon } from './icons/Icons';
+import { fileToBase64 } from '../services/geminiService';
+import { modelProvider, ProviderChat } from '../services/modelProvider';
+import { loadSessions, persistSessions, describeStorageError } from '../services/sessionStore';
+import { toDataUrl, toParts } from '../services/chatHistory';
+import { getActivePath, getBranchInfo, getSiblings, removeMessage, revealMessage, selectBranch, upsertMessage } from '../services/messageTree';
+import { FunctionCall, FunctionResponse, SendMessageParameters } from '@google/genai';
+import { getTool, getToolDeclarations } from '../services/toolRegistry';
+import { ApprovalDecision, getToolPermission, loadToolPermissions, setToolPermission, ToolPermission } from '../services/toolPermissions';
+import ToolPermissionsSettings from './ToolPermissionsSettings';
+import ApiKeySelector from './ApiKeySelector';
+import { requiresBilledKey } from '../services/apiKey';
+import { classifyError, describeError, withRetry } from '../services/errors';
+import { findSendParent, getOutbox, isOnline, subscribeToConnectivity } from '../services/outbox';
+import { ImageUploadSettings, loadImageUploadSettings, MAX_DIMENSION_OPTIONS, saveImageUploadSettings } from '../services/imagePreprocess';
+import { addUsage, getTodayTokens, isOverUsageThreshold, loadUsageSettings, recordUsage, saveUsageSettings, toTokenUsage, UsageSettings } from '../services/usage';
+import TimerDisplay from './TimerDisplay';
+import { parseTimerCommand, runTimerCommand } from '../services/timerService';
 import GroundingSearch from './GroundingSearch';
+import ComplexTask from './ComplexTask';
+import LiveConversation, { LiveTranscriptHandler } from './LiveConversation';
+import ChatBackup from './ChatBackup';
+import UsagePanel, { useUsageLog } from './UsagePanel';
+import ChatSearch from './ChatSearch';
+import SessionList from './SessionList';
+import { ALL_SESSIONS, parseSessionCommand, SessionChanges, SessionCommand, SessionFilter } from '../services/sessionOrganization';
 
 export type LiveVoice = 'Zephyr' | 'Puck' | 'Kore';
 
-const CHAT_SESSIONS_KEY = 'intellecto-chat-sessions';
+// How many rounds of tool calls the model may make before it has to answer.
+const MAX_TOOL_STEPS = 5;
+// Sent in place of the prompt when a failed turn is retried from where it stopped.
+const RESUME_PROMPT = 'Your last reply was cut off by an error. Carry on from where it stopped. '
+  + 'The tool results above are already done, so don\'t call those tools again.';
+
+// Marks sidebar entries whose models need billing enabled on the API key.
+const BilledBadge = () => (
+    <span className="ml-auto text-[10px] uppercase tracking-wide text-yellow-300 border border-yellow-700 rounded px-1" title="Needs an API key with billing enabled">
+        Billed
+    </span>
+);
+
+const useOnlineStatus = () => useSyncExternalStore(subscribeToConnectivity, isOnline);
+
 const createInitialMessage = (): ChatMessage => ({
     id: `initial-${Date.now()}`,
     role: 'model', 
@@ -21,51 +58,56 @@ const App: React.FC = () => {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [liveVoice, setLiveVoice] = useState<LiveVoice>('Zephyr');
   const [isAutoListenEnabled, setIsAutoListenEnabled] = useState(true);
+  // Images on their way into Image Studio, e.g. from the generator's gallery.
+  const [studioImages, setStudioImages] = useState<string[]>([]);
 
   // Chat State
   const [chatSessions, setChatSessions] = useState<ChatSession[]>([]);
   const [activeChatId, setActiveChatId] = useState<string | null>(null);
+  const [sessionFilter, setSessionFilter] = useState<SessionFilter>(ALL_SESSIONS);
   const [isLoading, setIsLoading] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Resolvers for approval cards that are waiting on the user, keyed by message ID.
+  const pendingApprovalsRef = useRef(new Map<string, (decision: ApprovalDecision) => void>());
+  const [toolPermissions, setToolPermissions] = useState(loadToolPermissions);
+  const [usageSettings, setUsageSettings] = useState(loadUsageSettings);
+  const [imageUploadSettings, setImageUploadSettings] = useState(loadImageUploadSettings);
+  const isOverUsageWarning = isOverUsageThreshold(getTodayTokens(useUsageLog()), usageSettings);
   
-  // Load chat sessions from local storage on initial render
+  const [isHistoryLoaded, setIsHistoryLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const isOnlineNow = useOnlineStatus();
+  
+  // Load chat sessions from IndexedDB on initial render
   useEffect(() => {
-    try {
-      const savedSessions = localStorage.getItem(CHAT_SESSIONS_KEY);
-      if (savedSessions) {
-        const parsedSessions: ChatSession[] = JSON.parse(savedSessions);
-        // Ensure all messages have IDs
-        const sanitizedSessions = parsedSessions.map(session => ({
-            ...session,
-            messages: session.messages.map(message => ({
-                ...message,
-                id: message.id || `${message.role}-${Date.now()}-${Math.random()}`,
-            }))
-        }));
-
-        if (sanitizedSessions.length > 0) {
-            setChatSessions(sanitizedSessions);
-            setActiveChatId(sanitizedSessions[0].id);
+    loadSessions()
+      .then(savedSessions => {
+        if (savedSessions.length > 0) {
+            setChatSessions(savedSessions);
+            setActiveChatId(savedSessions[0].id);
         } else {
             handleNewChat();
         }
-      } else {
+      })
+      .catch(error => {
+        console.error("Failed to load chat history:", error);
+        setStorageError("Your chat history could not be loaded. New chats may not be saved.");
         handleNewChat();
-      }
-    } catch (error) {
-      console.error("Failed to load chat history:", error);
-      handleNewChat();
-    }
+      })
+      .finally(() => setIsHistoryLoaded(true));
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // Save chat sessions to local storage whenever they change
+  // Save chat sessions whenever they change. Only the sessions and messages that actually
+  // changed are written, so this is cheap even while a reply is streaming in.
   useEffect(() => {
-    try {
-      localStorage.setItem(CHAT_SESSIONS_KEY, JSON.stringify(chatSessions));
-    } catch (error)      {
+    if (!isHistoryLoaded) return;
+    persistSessions(chatSessions).catch(error => {
       console.error("Failed to save chat history:", error);
-    }
-  }, [chatSessions]);
+      setStorageError(describeStorageError(error));
+    });
+  }, [chatSessions, isHistoryLoaded]);
   
   const handleNewChat = () => {
     const newId = Date.now().toString();
@@ -76,16 +118,49 @@ const App: React.FC = () => {
     };
     setChatSessions(prev => [newSession, ...prev]);
     setActiveChatId(newId);
+    setSessionFilter(ALL_SESSIONS); // Make sure the new chat is visible in the sidebar
     setActiveFeature(FeatureMode.CHAT);
     setIsSidebarOpen(false);
   };
 
+  const handleSendToStudio = (images: string[]) => {
+    setStudioImages(images);
+    setActiveFeature(FeatureMode.IMAGE_EDIT);
+  };
+
+  // Copies a worked problem into the current chat as a question and answer, so the
+  // conversation can continue from it.
+  const handleSendTaskToChat = (problem: string, answer: string) => {
+    const activeSession = chatSessions.find(s => s.id === activeChatId);
+    if (!activeChatId || !activeSession) return;
+    const activePath = getActivePath(activeSession);
+    const stamp = Date.now();
+    const userMessage: ChatMessage = { id: `task-user-${stamp}`, parentId: activePath[activePath.length - 1]?.id, role: 'user', text: problem };
+    putMessage(activeChatId, userMessage);
+    putMessage(activeChatId, { id: `task-model-${stamp}`, parentId: userMessage.id, role: 'model', text: answer });
+    setActiveFeature(FeatureMode.CHAT);
+  };
+
   const handleSelectChat = (id: string) => {
     setActiveChatId(id);
     setActiveFeature(FeatureMode.CHAT);
     setIsSidebarOpen(false);
   };
 
+  // Opens the chat a search result came from, switching to whichever branch contains the
+  // message, and flashes the message for a moment.
+  const handleSelectSearchResult = (sessionId: string, messageId: string) => {
+    updateSession(sessionId, session => revealMessage(session, messageId));
+    handleSelectChat(sessionId);
+    setHighlightedMessageId(messageId);
+  };
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = window.setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
   const handleDeleteChat = (idToDelete: string) => {
     const updatedSessions = chatSessions.filter(s => s.id !== idToDelete);
     setChatSessions(updatedSessions);
@@ -98,88 +173,249 @@ const App: React.FC = () => {
     }
   };
   
-  const updateSessionMessages = (sessionId: string, newMessages: ChatMessage[], newTitle?: string) => {
-      setChatSessions(prev => prev.map(s => {
-          if (s.id === sessionId) {
-              const updatedSession = { ...s, messages: newMessages };
-              if (newTitle) {
-                  updatedSession.title = newTitle;
-              }
-              return updatedSession;
-          }
-          return s;
-      }));
+  const updateSession = (sessionId: string, update: (session: ChatSession) => ChatSession) => {
+      setChatSessions(prev => prev.map(s => (s.id === sessionId ? update(s) : s)));
   };
 
-  // Helper function to process API responses (text, function calls)
-  const handleApiResponse = async (response: GenerateContentResponse, currentMessages: ChatMessage[]) => {
+  const putMessage = (sessionId: string, message: ChatMessage) => {
+      updateSession(sessionId, session => upsertMessage(session, message));
+  };
+
+  // Live voice transcripts grow while they are spoken, so each one is upserted under its ID.
+  // A new message follows whatever ends the active branch at the moment it first appears.
+  const handleLiveTranscript: LiveTranscriptHandler = (id, role, text, isFinal) => {
       if (!activeChatId) return;
+      updateSession(activeChatId, session => {
+          const existing = session.messages.find(m => m.id === id);
+          const activePath = getActivePath(session);
+          const parentId = existing ? existing.parentId : activePath[activePath.length - 1]?.id;
+          return upsertMessage(session, { id, parentId, role, text, ...(isFinal ? {} : { isStreaming: true }) });
+      });
+  };
 
-      let updatedMessages = [...currentMessages];
+  const handleUpdateSession = (sessionId: string, changes: SessionChanges) => {
+      updateSession(sessionId, session => ({ ...session, ...changes }));
+  };
 
-      // Always add the text response from the model first.
-      if (response.text) {
-          const modelResponse: ChatMessage = { id: `model-${Date.now()}`, role: 'model', text: response.text };
-          updatedMessages.push(modelResponse);
-          updateSessionMessages(activeChatId, updatedMessages);
+  // Asks the model for a fresh title based on what the chat has turned into, rather than
+  // just its first prompt.
+  const handleRetitleChat = async (sessionId: string) => {
+      const session = chatSessions.find(s => s.id === sessionId);
+      if (!session) return;
+      const transcript = getActivePath(session)
+          .filter(message => message.role === 'user' && message.text)
+          .map(message => message.text)
+          .join('\n')
+          .slice(0, 2000);
+      if (!transcript) return;
+      try {
+          const newTitle = await modelProvider.summarize(transcript);
+          handleUpdateSession(sessionId, { title: newTitle });
+      } catch (error) {
+          console.warn("Could not generate title:", error);
       }
-      
-      if (response.functionCalls && response.functionCalls.length > 0) {
-        const functionCall = response.functionCalls[0];
-        
-        let thinkingMessage: ChatMessage | null = null;
-        
-        // Handle functions that are immediate
-        if (functionCall.name === 'openApplication') {
-            const { appName, query } = functionCall.args;
-            let uri = '';
-            switch (String(appName).toLowerCase()) {
-                case 'email': uri = `mailto:${query || ''}`; break;
-                case 'phone': uri = `tel:${query || ''}`; break;
-                case 'sms':   uri = `sms:${query || ''}`; break;
-                case 'maps':  uri = `https://maps.google.com/?q=${encodeURIComponent(String(query) || '')}`; break;
-                case 'spotify': uri = query ? `spotify:search:${encodeURIComponent(String(query))}` : 'spotify:'; break;
-                default: console.warn(`Unsupported app name: ${appName}`); break;
-            }
-            if (uri) {
-                window.open(uri, '_self');
-            }
-            return; // Action complete
-        }
+  };
 
-        // Handle functions that require waiting and have a "thinking" state
-        if (functionCall.name === 'generateImage') {
-            thinkingMessage = { id: `thinking-${Date.now()}`, role: 'model', text: `Generating an image of "${functionCall.args.prompt}"...` };
-        } else if (functionCall.name === 'solveComplexTask') {
-            thinkingMessage = { id: `thinking-${Date.now()}`, role: 'model', text: `Thinking about your request: "${functionCall.args.prompt}"...` };
-        }
-        
-        if (thinkingMessage) {
-            updateSessionMessages(activeChatId, [...updatedMessages, thinkingMessage]);
-            let finalMessages = [...updatedMessages, thinkingMessage!];
-            let functionResult;
-            if (functionCall.name === 'generateImage') {
-                const imageUrl = await generateImage(functionCall.args.prompt as string, functionCall.args.aspectRatio as string);
-                functionResult = { id: `gen-img-${Date.now()}`, role: 'model', text: `Here is the image of "${functionCall.args.prompt}":`, generatedImage: imageUrl };
-            } else if (functionCall.name === 'solveComplexTask') {
-                const complexResponse = await generateComplexText(functionCall.args.prompt as string);
-                functionResult = { id: `complex-${Date.now()}`, role: 'model', text: complexResponse.text };
-            }
+  const handleSessionCommand = (sessionId: string, command: SessionCommand) => {
+      switch (command.type) {
+          case 'rename':
+              if (command.title) handleUpdateSession(sessionId, { title: command.title });
+              break;
+          case 'retitle':
+              handleRetitleChat(sessionId);
+              break;
+          case 'pin':
+              handleUpdateSession(sessionId, { isPinned: command.isPinned });
+              break;
+          case 'archive':
+              handleUpdateSession(sessionId, { isArchived: command.isArchived });
+              break;
+          case 'tag':
+          case 'untag':
+              updateSession(sessionId, session => {
+                  const current = session.tags || [];
+                  const tags = command.type === 'tag'
+                      ? Array.from(new Set([...current, ...command.tags]))
+                      : current.filter(tag => !command.tags.includes(tag));
+                  return { ...session, tags };
+              });
+              break;
+          case 'filter':
+              setSessionFilter(command.filter);
+              setIsSidebarOpen(true);
+              break;
+      }
+  };
 
-            if(functionResult) {
-                // Replace the "thinking" message with the final result
-                finalMessages = finalMessages.filter(msg => msg.id !== thinkingMessage!.id);
-                finalMessages.push(functionResult);
-            }
-            updateSessionMessages(activeChatId, finalMessages);
-        }
+  // Streams a model reply into a message that grows as chunks arrive. Function calls that
+  // come in mid-stream are collected and returned so they can be handled once the text is done.
+  // Resolves with the ID of the last message in the branch, which the next message should follow.
+  const streamModelResponse = async (
+      sessionId: string,
+      chat: ProviderChat,
+      message: SendMessageParameters['message'],
+      parentId: string,
+      signal: AbortSignal,
+  ): Promise<{ lastMessageId: string, functionCalls: FunctionCall[] }> => {
+      // Tool rounds can follow each other within the same millisecond, so the time alone isn't unique.
+      const modelMessageId = `model-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      const functionCalls: FunctionCall[] = [];
+      let text = '';
+      // Every chunk carries the counts so far; the last one has the totals.
+      let usage: TokenUsage | undefined;
+
+      try {
+          const stream = await chat.sendMessageStream({ message, config: { abortSignal: signal } });
+          for await (const chunk of stream) {
+              if (signal.aborted) break;
+              usage = toTokenUsage(chunk.usageMetadata) || usage;
+              if (chunk.functionCalls) {
+                  functionCalls.push(...chunk.functionCalls);
+              }
+              if (chunk.text) {
+                  text += chunk.text;
+                  putMessage(sessionId, { id: modelMessageId, parentId, role: 'model', text, isStreaming: true, isTurnReply: true });
+              }
+          }
+      } catch (error) {
+          // Stopping the request rejects the stream; keep whatever text already arrived.
+          if (!signal.aborted) {
+              updateSession(sessionId, session => removeMessage(session, modelMessageId));
+              throw error;
+          }
+      }
+
+      if (usage) {
+          recordUsage('chat', usage);
+          const requestUsage = usage;
+          updateSession(sessionId, session => ({ ...session, usage: addUsage(session.usage, requestUsage) }));
+      }
+      if (!text) {
+          return { lastMessageId: parentId, functionCalls: signal.aborted ? [] : functionCalls };
       }
+      putMessage(sessionId, { id: modelMessageId, parentId, role: 'model', text, isTurnReply: true, ...(usage ? { usage } : {}) });
+      return { lastMessageId: modelMessageId, functionCalls: signal.aborted ? [] : functionCalls };
+  };
+
+  // Waits for the user to answer the approval card on `messageId`. Stopping the turn counts as a refusal.
+  const waitForApproval = (messageId: string, signal: AbortSignal) => new Promise<ApprovalDecision>(resolve => {
+      const handleAbort = () => {
+          pendingApprovalsRef.current.delete(messageId);
+          resolve('deny');
+      };
+      if (signal.aborted) return handleAbort();
+      signal.addEventListener('abort', handleAbort, { once: true });
+      pendingApprovalsRef.current.set(messageId, decision => {
+          signal.removeEventListener('abort', handleAbort);
+          pendingApprovalsRef.current.delete(messageId);
+          resolve(decision);
+      });
+  });
+
+  const handleApprovalDecision = (messageId: string, decision: ApprovalDecision) => {
+      pendingApprovalsRef.current.get(messageId)?.(decision);
+  };
+
+  const handleSetToolPermission = (toolName: string, permission: ToolPermission) => {
+      setToolPermissions(setToolPermission(toolName, permission));
+  };
+
+  const handleUsageSettingsChange = (settings: UsageSettings) => {
+      saveUsageSettings(settings);
+      setUsageSettings(settings);
+  };
+
+  const handleImageUploadSettingsChange = (settings: ImageUploadSettings) => {
+      saveImageUploadSettings(settings);
+      setImageUploadSettings(settings);
   };
 
+  // Runs the tools the model asked for. Each call gets a placeholder message, chained after
+  // the reply, that shows what the tool is doing and is replaced by its result. Tools with
+  // side effects first show an approval card unless the user has already allowed or blocked
+  // them. The calls run in parallel and their results are returned in call order, ready to
+  // send back to the model.
+  const runToolCalls = async (
+      sessionId: string,
+      functionCalls: FunctionCall[],
+      parentId: string,
+      signal: AbortSignal,
+  ): Promise<{ lastMessageId: string, responses: FunctionResponse[] }> => {
+      const stamp = Date.now();
+      let lastMessageId = parentId;
+      const runs = functionCalls.map((functionCall, index) => {
+          const id = `tool-${stamp}-${index}`;
+          const messageParentId = lastMessageId;
+          lastMessageId = id;
+          const tool = getTool(functionCall.name);
+          const args = functionCall.args || {};
+          const permission = tool?.describeAction ? getToolPermission(tool.declaration.name) : undefined;
+          const approval: ToolApproval | undefined = tool?.describeAction && permission
+              ? { toolName: tool.declaration.name, action: tool.describeAction(args), status: permission === 'ask' ? 'pending' : permission === 'allow' ? 'allowed' : 'denied' }
+              : undefined;
+          const show = (update: Omit<ChatMessage, 'id' | 'parentId' | 'role'>) =>
+              putMessage(sessionId, { id, parentId: messageParentId, role: 'model', ...update, ...(approval ? { approval: { ...(update.approval || approval) } } : {}) });
+          show(approval?.status === 'pending'
+              ? { text: '' }
+              : { text: tool ? tool.runningText(args) : `Running ${functionCall.name}...`, isStreaming: true });
+          return { id, functionCall, tool, args, approval, show };
+      });
+
+      const responses = await Promise.all(runs.map(async ({ id, functionCall, tool, args, approval, show }): Promise<FunctionResponse> => {
+          const base = { id: functionCall.id, name: functionCall.name };
+          try {
+              if (!tool) throw new Error(`Unknown tool: ${functionCall.name}`);
+
+              if (approval?.status === 'denied') {
+                  show({ text: 'Blocked by your tool permissions.' });
+                  return { ...base, response: { error: 'The user has blocked this tool in settings.' } };
+              }
+              if (approval?.status === 'pending') {
+                  const decision = await waitForApproval(id, signal);
+                  if (decision === 'deny') {
+                      show({ text: 'You declined this action.', approval: { ...approval, status: 'denied' } });
+                      return { ...base, response: { error: 'The user declined this action.' } };
+                  }
+                  if (decision === 'always') handleSetToolPermission(tool.declaration.name, 'allow');
+                  // `show` copies the approval into each message, so updating it here is safe.
+                  approval.status = 'allowed';
+                  show({ text: tool.runningText(args), isStreaming: true });
+              }
+
+              const result = await tool.execute(args, { sessionId, signal });
+              show(result.display);
+              return { ...base, response: result.response };
+          } catch (error: any) {
+              console.error(`Tool ${functionCall.name} failed:`, error);
+              const reason = error?.message || String(error);
+              show({ text: `${functionCall.name} failed: ${reason}`, isError: true });
+              return { ...base, response: { error: reason } };
+          }
+      }));
+      return { lastMessageId, responses };
+  };
 
   const handleSendMessage = async (prompt: string, imageFile: File | null) => {
     const command = prompt.trim().toLowerCase();
 
+    const sessionCommand = parseSessionCommand(prompt);
+    if (sessionCommand) {
+        if (activeChatId) handleSessionCommand(activeChatId, sessionCommand);
+        return;
+    }
+
+    // Timer commands are answered locally so "stop the alarm" works instantly, by voice too.
+    const timerCommand = parseTimerCommand(prompt);
+    if (timerCommand) {
+        const reply = runTimerCommand(timerCommand);
+        const activeSession = chatSessions.find(s => s.id === activeChatId);
+        if (activeChatId && activeSession) {
+            const activePath = getActivePath(activeSession);
+            putMessage(activeChatId, { id: `timers-${Date.now()}`, parentId: activePath[activePath.length - 1]?.id, role: 'model', text: reply });
+        }
+        return;
+    }
+
     // --- Command Handling Logic ---
     switch (command) {
         case 'new chat':
@@ -203,13 +439,15 @@ const App: React.FC = () => {
             if (activeChatId) {
                 const activeSession = chatSessions.find(s => s.id === activeChatId);
                 if (activeSession) {
-                    const helpText = `You can control the app with these commands:\n\n*   **"new chat"**: Starts a new chat.\n*   **"delete this chat"**: Deletes the current chat.\n*   **"clear history"**: Deletes all chats.\n*   **"help"**: Shows this message.\n\nYou can also ask me to perform actions like:\n* "Edit a photo to be black and white"\n* "Search for the weather in London"\n* "Send an email to contact@example.com"\n* "Call 555-123-4567"\n* "Find the nearest park on Maps"`;
+                    const helpText = `You can control the app with these commands:\n\n*   **"new chat"**: Starts a new chat.\n*   **"delete this chat"**: Deletes the current chat.\n*   **"clear history"**: Deletes all chats.\n*   **"rename chat to ..."**: Renames the current chat.\n*   **"retitle chat"**: Suggests a new title from the conversation so far.\n*   **"pin chat"** / **"unpin chat"**: Keeps the current chat at the top of the list.\n*   **"tag chat work, ideas"** / **"untag chat work"**: Adds or removes tags.\n*   **"archive chat"** / **"unarchive chat"**: Hides the current chat without deleting it.\n*   **"show chats tagged work"**, **"show archived chats"**, **"show all chats"**: Filters the chat list.\n*   **"list timers"**, **"cancel the pasta timer"**, **"cancel all alarms"**, **"stop the alarm"**: Manages timers and alarms.\n*   **"help"**: Shows this message.\n\nYou can also ask me to perform actions like:\n* "Edit a photo to be black and white"\n* "Search for the weather in London"\n* "Send an email to contact@example.com"\n* "Call 555-123-4567"\n* "Find the nearest park on Maps"\n* "Set a 10 minute timer for the pasta"\n* "Wake me at 7:30"`;
+                    const activePath = getActivePath(activeSession);
                     const helpMessage: ChatMessage = {
                         id: `help-${Date.now()}`,
+                        parentId: activePath[activePath.length - 1]?.id,
                         role: 'model',
                         text: helpText,
                     };
-                    updateSessionMessages(activeChatId, [...activeSession.messages, helpMessage]);
+                    putMessage(activeChatId, helpMessage);
                 }
             }
             return;
@@ -221,123 +459,238 @@ const App: React.FC = () => {
     const activeSession = chatSessions.find(s => s.id === activeChatId);
     if (!activeSession) return;
     
-    setIsLoading(true);
-    
-    let userMessage: ChatMessage;
-    const messageId = `user-${Date.now()}`;
+    // Keep the attachment as a data URL so it survives reloads and can be resent on edit.
+    let image: string | undefined;
     if (imageFile) {
-        const imagePreview = URL.createObjectURL(imageFile);
-        userMessage = { id: messageId, role: 'user', text: prompt, image: imagePreview };
-    } else {
-        userMessage = { id: messageId, role: 'user', text: prompt };
-    }
-    
-    const updatedMessages = [...activeSession.messages, userMessage];
-    updateSessionMessages(activeChatId, updatedMessages);
-    
-    // Auto-generate title for new chats
-    if (activeSession.messages.length === 1 && prompt.length > 0) {
         try {
-            const newTitle = await summarize(prompt);
-            updateSessionMessages(activeChatId, updatedMessages, newTitle);
+            image = toDataUrl({ base64: await fileToBase64(imageFile), mimeType: imageFile.type });
         } catch (error) {
-            console.warn("Could not generate title:", error);
+            console.error("Could not read attached image:", error);
+            // Chat puts the draft back and shows this, so nothing the user wrote is lost.
+            throw new Error("Couldn't read the attached image. Please try sending it again.");
         }
     }
 
+    const sessionId = activeChatId;
+    const activePath = getActivePath(activeSession);
+
+    const userMessage: ChatMessage = {
+        id: `user-${Date.now()}`,
+        parentId: activePath[activePath.length - 1]?.id,
+        role: 'user',
+        text: prompt,
+        ...(image ? { image } : {}),
+    };
+
+    // Offline, the message waits in the outbox and is sent when the connection comes back.
+    if (!isOnline()) {
+        putMessage(sessionId, { ...userMessage, pendingSince: Date.now() });
+        return;
+    }
+
+    setIsLoading(true);
+    putMessage(sessionId, userMessage);
+    
+    await generateTitle(sessionId, activePath, prompt);
+    // History for the API is the active branch *before* adding the new user message
+    await runTurn(sessionId, activePath, userMessage, 'Sorry, something went wrong. Please try again.');
+  };
+
+  // Auto-generate title for new chats, where the history is just the greeting.
+  const generateTitle = async (sessionId: string, history: ChatMessage[], prompt: string) => {
+    if (history.length !== 1 || prompt.length === 0) return;
+    try {
+        const newTitle = await modelProvider.summarize(prompt);
+        updateSession(sessionId, session => ({ ...session, title: newTitle }));
+    } catch (error) {
+        console.warn("Could not generate title:", error);
+    }
+  };
+
+  // Sends the oldest message in the outbox. It is moved after whatever was answered while it
+  // waited, and stops being pending in the same update that starts loading, so the flush
+  // effect below can't pick it up twice.
+  const sendPendingMessage = async (sessionId: string, pending: ChatMessage) => {
+    const session = chatSessions.find(s => s.id === sessionId);
+    if (!session) return;
+
+    const { pendingSince, ...rest } = pending;
+    const userMessage: ChatMessage = { ...rest, parentId: findSendParent(session, pending) };
+    const moveIntoPlace = (s: ChatSession) => revealMessage(upsertMessage(s, userMessage), userMessage.id);
+    setIsLoading(true);
+    updateSession(sessionId, moveIntoPlace);
+
+    const path = getActivePath(moveIntoPlace(session));
+    const historyBefore = path.slice(0, path.findIndex(m => m.id === userMessage.id));
+    await generateTitle(sessionId, historyBefore, userMessage.text);
+    // runTurn gets the original time, so if the connection drops again it keeps its place.
+    await runTurn(sessionId, historyBefore, { ...userMessage, pendingSince }, 'Sorry, something went wrong. Please try again.');
+  };
+
+  // Empties the outbox one message at a time, oldest first, once the browser is back online.
+  useEffect(() => {
+    if (!isOnlineNow || !isHistoryLoaded || isLoading) return;
+    const [next] = getOutbox(chatSessions);
+    if (next) sendPendingMessage(next.sessionId, next.message);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOnlineNow, isHistoryLoaded, isLoading, chatSessions]);
+
+  // Sends `userMessage` on top of `history` (the active branch before it, starting with the
+  // greeting) and streams the reply and any tool results into the session after it.
+  // `done` resumes a turn that failed part way: it is what the turn had already added after
+  // `userMessage`. That goes to the model as history, so tools that ran aren't run again.
+  const runTurn = async (sessionId: string, history: ChatMessage[], userMessage: ChatMessage, failureText: string, done: ChatMessage[] = []) => {
+    setIsLoading(true);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let parentId = done.length > 0 ? done[done.length - 1].id : userMessage.id;
+
     try {
-      // History for the API is the state *before* adding the new user message
-      const chat: GenAIChat = startChat(activeSession.messages.slice(1)); 
+      const chat = modelProvider.startChat(done.length > 0 ? [...history.slice(1), userMessage, ...done] : history.slice(1), getToolDeclarations());
       
-      let response;
-      if (imageFile) {
-        const base64 = await fileToBase64(imageFile);
-        const imagePart = { inlineData: { data: base64, mimeType: imageFile.type } };
-        const textPart = { text: prompt };
-        response = await chat.sendMessage({ message: {parts: [textPart, imagePart]} });
-      } else {
-        response = await chat.sendMessage({ message: prompt });
-      }
+      // The model may answer with tool calls; their results go back to it until it replies
+      // with plain text, up to MAX_TOOL_STEPS rounds.
+      let message: SendMessageParameters['message'] = done.length > 0 ? [{ text: RESUME_PROMPT }] : toParts(userMessage);
+      for (let step = 0; step <= MAX_TOOL_STEPS; step++) {
+          const roundMessage = message;
+          const roundParentId = parentId;
+          // A failed stream leaves nothing behind, so transient failures can simply be resent.
+          const { lastMessageId, functionCalls } = await withRetry(
+              () => streamModelResponse(sessionId, chat, roundMessage, roundParentId, abortController.signal),
+              {
+                  signal: abortController.signal,
+                  onRetry: (error, attempt) => console.warn(`Model request failed, retrying (attempt ${attempt}):`, error),
+              },
+          );
+          parentId = lastMessageId;
+          if (functionCalls.length === 0) break;
+          if (step === MAX_TOOL_STEPS) {
+              // Still asking for tools: say so rather than ending on a half-finished reply.
+              const limitMessage: ChatMessage = {
+                  id: `error-${Date.now()}`,
+                  parentId,
+                  role: 'model',
+                  text: `Stopped after ${MAX_TOOL_STEPS} tool steps without a final answer.`,
+                  isError: true,
+                  isTurnReply: true,
+              };
+              putMessage(sessionId, limitMessage);
+              break;
+          }
 
-      await handleApiResponse(response, updatedMessages);
+          const toolResults = await runToolCalls(sessionId, functionCalls, parentId, abortController.signal);
+          parentId = toolResults.lastMessageId;
+          if (abortController.signal.aborted) break;
+          message = toolResults.responses.map(functionResponse => ({ functionResponse }));
+      }
       
-    } catch (error: any) {
+    } catch (error) {
+      // The connection dropped before any of the reply arrived: keep the prompt in the outbox.
+      if (parentId === userMessage.id && !isOnline() && classifyError(error).kind === 'network') {
+        console.warn("Went offline while sending; queued the message:", error);
+        putMessage(sessionId, { ...userMessage, pendingSince: userMessage.pendingSince ?? Date.now() });
+        return;
+      }
       console.error("Error sending message:", error);
-      let errorMessageText = 'Sorry, something went wrong. Please try again.';
-      try {
-        const errorJson = JSON.parse(error.message);
-        if (errorJson?.error?.status === 'RESOURCE_EXHAUSTED') {
-          errorMessageText = `You exceeded your current quota. \n\n*   [Monitor your usage](https://ai.dev/usage?tab=rate-limit)\n*   [Learn more about rate limits](https://ai.google.dev/gemini-api/docs/rate-limits)`;
-        }
-      } catch (e) { /* Not a JSON error, use default message */ }
-
+      // Follows whatever the turn got to, so finished tool results and text stay on the branch.
       const errorMessage: ChatMessage = { 
         id: `error-${Date.now()}`, 
+        parentId,
         role: 'model', 
-        text: errorMessageText,
+        text: describeError(error, failureText),
         isError: true,
+        isTurnReply: true,
       };
-      updateSessionMessages(activeChatId, [...updatedMessages, errorMessage]);
+      putMessage(sessionId, errorMessage);
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
       setIsLoading(false);
     }
   };
 
+  // Editing never overwrites: the edited text becomes a new sibling of the original message,
+  // so the earlier conversation stays reachable through the branch switcher.
   const handleEditMessage = async (messageId: string, newText: string) => {
     if (!activeChatId) return;
 
     const activeSession = chatSessions.find(s => s.id === activeChatId);
     if (!activeSession) return;
     
-    const messageIndex = activeSession.messages.findIndex(m => m.id === messageId);
-    if (messageIndex === -1 || activeSession.messages[messageIndex].role !== 'user') return;
+    const activePath = getActivePath(activeSession);
+    const messageIndex = activePath.findIndex(m => m.id === messageId);
+    if (messageIndex === -1 || activePath[messageIndex].role !== 'user') return;
 
-    // 1. Create history up to the point of edit, with the edited message.
-    const truncatedHistory = activeSession.messages.slice(0, messageIndex);
+    // The edited message becomes a new branch after everything before the original.
+    // Adding the sibling also switches the UI over to that branch.
     const editedMessage: ChatMessage = { 
-        ...activeSession.messages[messageIndex], 
+        ...activePath[messageIndex], 
+        id: `user-${Date.now()}`,
         text: newText 
     };
-    const newMessagesForUi = [...truncatedHistory, editedMessage];
+    putMessage(activeChatId, editedMessage);
 
-    // 2. Update UI to show the edited message and remove subsequent ones.
-    updateSessionMessages(activeChatId, newMessagesForUi);
-    setIsLoading(true);
+    // The original attachment, if there was one, is sent again along with the new text.
+    await runTurn(activeChatId, activePath.slice(0, messageIndex), editedMessage, 'Sorry, something went wrong while rewriting the response. Please try again.');
+  };
 
-    try {
-        // 3. For the API, history is everything *before* the message we're "resending".
-        const chat: GenAIChat = startChat(truncatedHistory.slice(1));
-        
-        // 4. Send the edited text as the new message.
-        // Note: Editing messages with images is not supported in this flow, as the File object is not persisted.
-        const response = await chat.sendMessage({ message: newText });
+  // Asks for another answer to the user turn a model message belongs to. The new answer is
+  // added as a sibling draft so earlier ones stay selectable. A failed turn is retried in place:
+  // the error goes and the turn carries on from the message before it.
+  const handleRegenerate = async (messageId: string) => {
+    if (!activeChatId) return;
 
-        // 5. Process the response and append it to our new UI state.
-        await handleApiResponse(response, newMessagesForUi);
+    const activeSession = chatSessions.find(s => s.id === activeChatId);
+    if (!activeSession) return;
 
-    } catch (error: any) {
-        console.error("Error sending edited message:", error);
-        let errorMessageText = 'Sorry, something went wrong while rewriting the response. Please try again.';
-        try {
-            const errorJson = JSON.parse(error.message);
-            if (errorJson?.error?.status === 'RESOURCE_EXHAUSTED') {
-              errorMessageText = `You exceeded your current quota. \n\n*   [Monitor your usage](https://ai.dev/usage?tab=rate-limit)\n*   [Learn more about rate limits](https://ai.google.dev/gemini-api/docs/rate-limits)`;
-            }
-        } catch(e) { /* Not a JSON error */ }
-        const errorMessage: ChatMessage = { 
-            id: `error-${Date.now()}`, 
-            role: 'model', 
-            text: errorMessageText,
-            isError: true,
-        };
-        updateSessionMessages(activeChatId, [...newMessagesForUi, errorMessage]);
-    } finally {
-        setIsLoading(false);
+    const activePath = getActivePath(activeSession);
+    const messageIndex = activePath.findIndex(m => m.id === messageId);
+    if (messageIndex === -1 || activePath[messageIndex].role !== 'model') return;
+
+    // The reply may be several messages long (text, then tool results); walk back to the turn's prompt.
+    let userIndex = messageIndex;
+    while (userIndex >= 0 && activePath[userIndex].role !== 'user') userIndex--;
+    if (userIndex < 0) return;
+
+    const userMessage = activePath[userIndex];
+    const target = activePath[messageIndex];
+    const failureText = 'Sorry, something went wrong while regenerating the response. Please try again.';
+    if (target.isError) {
+        updateSession(activeChatId, session => removeMessage(session, target.id));
+        await runTurn(activeChatId, activePath.slice(0, userIndex), userMessage, failureText, activePath.slice(userIndex + 1, messageIndex));
+        return;
     }
-};
+
+    await runTurn(activeChatId, activePath.slice(0, userIndex), userMessage, failureText);
+  };
+
+  const handleSwitchBranch = (messageId: string, offset: number) => {
+    if (!activeChatId) return;
+    updateSession(activeChatId, session => {
+        const siblings = getSiblings(session, messageId);
+        const index = siblings.findIndex(m => m.id === messageId);
+        const target = siblings[index + offset];
+        return target ? selectBranch(session, target.id) : session;
+    });
+  };
+
+  // Imported chats go to the top of the list; their IDs have already been made unique.
+  const handleImportChats = (imported: ChatSession[]) => {
+    if (imported.length === 0) return;
+    setChatSessions(prev => [...imported, ...prev]);
+    setActiveChatId(imported[0].id);
+    setActiveFeature(FeatureMode.CHAT);
+  };
+
+  const handleStopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
 
 
   const activeChat = chatSessions.find(c => c.id === activeChatId);
+  const activeMessages = activeChat ? getActivePath(activeChat) : [];
+  const activeBranchInfo = activeChat ? getBranchInfo(activeChat, activeMessages) : {};
 
   return (
     <div className="flex h-screen bg-gray-900 text-gray-200">
@@ -350,37 +703,67 @@ const App: React.FC = () => {
       {/* Sidebar */}
       <div className={`fixed inset-y-0 left-0 transform ${isSidebarOpen ? 'translate-x-0' : '-translate-x-full'} md:relative md:translate-x-0 transition-transform duration-300 ease-in-out w-72 bg-gray-900 p-4 flex flex-col z-30`}>
         <div className="flex justify-between items-center mb-6">
-            <h1 className="text-xl font-semibold">Intellecto AI</h1>
+            <div>
+                <h1 className="text-xl font-semibold">Intellecto AI</h1>
+                {modelProvider.id === 'mock' && (
+                    <span className="text-xs text-yellow-400">Offline mock provider</span>
+                )}
+            </div>
             <button onClick={() => setIsSidebarOpen(false)} className="md:hidden text-gray-400 hover:text-white">
                 <CloseIcon />
             </button>
         </div>
         
-        <button onClick={handleNewChat} className="w-full flex items-center p-3 mb-6 text-sm rounded-lg hover:bg-gray-700 transition-colors font-medium border border-gray-600">
+        <button onClick={handleNewChat} className="w-full flex items-center p-3 mb-4 text-sm rounded-lg hover:bg-gray-700 transition-colors font-medium border border-gray-600">
           <PlusIcon />
           <span className="ml-2">New Chat</span>
         </button>
 
-        <div className="flex-1 overflow-y-auto -mr-2 pr-2 space-y-2">
-            {chatSessions.map(session => (
-                <div key={session.id} className={`relative group flex items-center p-3 rounded-lg cursor-pointer transition-colors ${activeChatId === session.id ? 'bg-gray-700' : 'hover:bg-gray-700/50'}`} onClick={() => handleSelectChat(session.id)}>
-                    <span className="flex-1 truncate text-sm">{session.title}</span>
-                    <button onClick={(e) => { e.stopPropagation(); handleDeleteChat(session.id);}} className="ml-2 text-gray-400 opacity-0 group-hover:opacity-100 hover:text-white transition-opacity">
-                        <TrashIcon />
-                    </button>
-                </div>
-            ))}
-        </div>
+        <ChatSearch sessions={chatSessions} onSelectResult={handleSelectSearchResult}>
+            <SessionList
+                sessions={chatSessions}
+                activeChatId={activeChatId}
+                filter={sessionFilter}
+                onFilterChange={setSessionFilter}
+                onSelect={handleSelectChat}
+                onUpdate={handleUpdateSession}
+                onRetitle={handleRetitleChat}
+                onDelete={handleDeleteChat}
+            />
+        </ChatSearch>
         
         <div className="mt-4 border-t border-gray-700 pt-4 space-y-2">
+            <button onClick={() => { setActiveFeature(FeatureMode.IMAGE_GENERATE); setIsSidebarOpen(false); }} className="w-full flex items-center p-3 text-sm rounded-lg hover:bg-gray-700 transition-colors">
+                <ImageIcon />
+                <span className="ml-3">Image Generator</span>
+                {requiresBilledKey(FeatureMode.IMAGE_GENERATE) && <BilledBadge />}
+            </button>
             <button onClick={() => { setActiveFeature(FeatureMode.IMAGE_EDIT); setIsSidebarOpen(false); }} className="w-full flex items-center p-3 text-sm rounded-lg hover:bg-gray-700 transition-colors">
                 <EditIcon />
                 <span className="ml-3">Image Studio</span>
+                {requiresBilledKey(FeatureMode.IMAGE_EDIT) && <BilledBadge />}
             </button>
             <button onClick={() => { setActiveFeature(FeatureMode.GROUNDED_SEARCH); setIsSidebarOpen(false); }} className="w-full flex items-center p-3 text-sm rounded-lg hover:bg-gray-700 transition-colors">
                 <GlobeIcon />
                 <span className="ml-3">Grounded Search</span>
             </button>
+            <button onClick={() => { setActiveFeature(FeatureMode.COMPLEX_TASK); setIsSidebarOpen(false); }} className="w-full flex items-center p-3 text-sm rounded-lg hover:bg-gray-700 transition-colors">
+                <LightbulbIcon />
+                <span className="ml-3">Complex Task</span>
+            </button>
+            <button onClick={() => { setActiveFeature(FeatureMode.LIVE); setIsSidebarOpen(false); }} className="w-full flex items-center p-3 text-sm rounded-lg hover:bg-gray-700 transition-colors">
+                <MicIcon />
+                <span className="ml-3">Live Voice</span>
+            </button>
+            <button onClick={() => { setActiveFeature(FeatureMode.USAGE); setIsSidebarOpen(false); }} className="w-full flex items-center p-3 text-sm rounded-lg hover:bg-gray-700 transition-colors">
+                <ChartIcon />
+                <span className="ml-3">Usage</span>
+                {isOverUsageWarning && (
+                    <span className="ml-auto text-[10px] uppercase tracking-wide text-yellow-300 border border-yellow-700 rounded px-1" title="Today's usage is over your warning threshold">
+                        High
+                    </span>
+                )}
+            </button>
         </div>
 
         <div className="mt-4 border-t border-gray-700 pt-4 px-1">
@@ -409,25 +792,70 @@ const App: React.FC = () => {
               <div className="w-9 h-5 bg-gray-600 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
             </label>
           </div>
+
+          <div className="flex items-center justify-between gap-2 mt-4">
+            <label htmlFor="image-size-select" className="text-xs font-medium text-gray-400">Max image size</label>
+            <select
+              id="image-size-select"
+              value={imageUploadSettings.maxDimension}
+              onChange={e => handleImageUploadSettingsChange({ ...imageUploadSettings, maxDimension: Number(e.target.value) })}
+              className="bg-gray-700 border border-gray-600 rounded-md p-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+              title="Larger images are scaled down to this before they're sent"
+            >
+              {MAX_DIMENSION_OPTIONS.map(size => <option key={size} value={size} className="bg-gray-800">{size}px</option>)}
+            </select>
+          </div>
+
+          <ApiKeySelector />
+
+          <ToolPermissionsSettings permissions={toolPermissions} onChange={handleSetToolPermission} />
+
+          <ChatBackup sessions={chatSessions} activeSession={activeChat} onImport={handleImportChats} />
         </div>
       </div>
 
       {/* Main Content */}
       <main className="flex-1 flex flex-col bg-gray-800">
+        {storageError && (
+          <div role="alert" className="bg-red-800 text-red-100 p-2 text-sm flex items-center justify-between gap-2">
+            <span className="flex-1 text-center">{storageError}</span>
+            <button onClick={() => setStorageError(null)} className="text-red-200 hover:text-white" aria-label="Dismiss storage error">
+              <CloseIcon className="w-4 h-4" />
+            </button>
+          </div>
+        )}
         <div className="flex-1 overflow-y-auto">
           {activeFeature === FeatureMode.CHAT && activeChat && (
               <Chat 
-                  messages={activeChat.messages} 
+                  messages={activeMessages} 
+                  branches={activeBranchInfo}
                   onSendMessage={handleSendMessage} 
                   onEditMessage={handleEditMessage}
+                  onSwitchBranch={handleSwitchBranch}
+                  onRegenerate={handleRegenerate}
+                  onStopGenerating={handleStopGenerating}
+                  onApprovalDecision={handleApprovalDecision}
+                  highlightedMessageId={highlightedMessageId}
                   isLoading={isLoading} 
+                  isOnline={isOnlineNow}
                   voice={liveVoice}
                   isAutoListenEnabled={isAutoListenEnabled}
               />
           )}
-          {activeFeature === FeatureMode.IMAGE_EDIT && <ImageEditor />}
+          {activeFeature === FeatureMode.IMAGE_GENERATE && <ImageGenerator onSendToStudio={handleSendToStudio} />}
+          {activeFeature === FeatureMode.IMAGE_EDIT && (
+              <ImageEditor incomingImages={studioImages} onIncomingImagesAdded={() => setStudioImages([])} />
+          )}
           {activeFeature === FeatureMode.GROUNDED_SEARCH && <GroundingSearch />}
+          {activeFeature === FeatureMode.COMPLEX_TASK && <ComplexTask onSendToChat={handleSendTaskToChat} />}
+          {activeFeature === FeatureMode.LIVE && (
+              <LiveConversation voice={liveVoice} chatTitle={activeChat?.title} onTranscript={handleLiveTranscript} />
+          )}
+          {activeFeature === FeatureMode.USAGE && (
+              <UsagePanel sessions={chatSessions} settings={usageSettings} onSettingsChange={handleUsageSettingsChange} onSelectChat={handleSelectChat} />
+          )}
         </div>
+        <TimerDisplay />
       </main>
     </div>
   );
@@ -0,0 +1,270 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { fileToBase64 } from '../services/geminiService';
+import { preprocessImages } from '../services/imagePreprocess';
+import { modelProvider } from '../services/modelProvider';
+import { describeError, withRetry } from '../services/errors';
+import { parseDataUrl, toDataUrl } from '../services/chatHistory';
+import { downloadFile, toFileName } from '../services/download';
+import {
+  BatchItem,
+  CONCURRENCY_OPTIONS,
+  createBatchItem,
+  DEFAULT_CONCURRENCY,
+  resultFileName,
+  runWithConcurrency,
+  zipBatchResults,
+} from '../services/batch';
+import Spinner from './Spinner';
+import { CloseIcon, DownloadIcon } from './icons/Icons';
+
+const STATUS_TEXT: Record<BatchItem['status'], string> = {
+  queued: 'Queued',
+  running: 'Editing...',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+const STATUS_COLOR: Record<BatchItem['status'], string> = {
+  queued: 'text-gray-400',
+  running: 'text-blue-400',
+  done: 'text-green-400',
+  failed: 'text-red-400',
+};
+
+// Applies one instruction to every uploaded image separately, rather than combining them.
+const BatchEditor: React.FC = () => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [prompt, setPrompt] = useState('');
+  // The instruction the current results were made with. Retries reuse it.
+  const [runPrompt, setRunPrompt] = useState('');
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const failedCount = items.filter(item => item.status === 'failed').length;
+  const instruction = prompt.trim();
+  // A changed instruction means every image needs doing again.
+  const itemsToRun = instruction !== runPrompt ? items : items.filter(item => item.status !== 'done');
+
+  const updateItem = (id: string, changes: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files) return;
+    const files = Array.from(e.target.files);
+    e.target.value = ''; // Allow selecting the same files again
+    try {
+      const prepared = await preprocessImages(files);
+      const added = await Promise.all(prepared.files.map(async file =>
+        createBatchItem(file.name, toDataUrl({ base64: await fileToBase64(file), mimeType: file.type }))));
+      setItems(prev => [...prev, ...added]);
+      const skipped = prepared.errors.length;
+      setError(skipped > 1 ? `${skipped} images were skipped. ${prepared.errors[0]}` : prepared.errors[0] || null);
+    } catch (err) {
+      console.error(err);
+      setError('Could not read one of the images. Please try again.');
+    }
+  };
+
+  // Once started, an image runs to the end, retries included; stopping only holds back the rest.
+  const processItem = async (item: BatchItem, text: string) => {
+    const image = parseDataUrl(item.source);
+    if (!image) {
+      updateItem(item.id, { status: 'failed', error: "This image can't be read. Remove it and upload it again." });
+      return;
+    }
+    updateItem(item.id, { status: 'running', retries: 0 });
+    try {
+      const result = await withRetry(
+        () => modelProvider.combineImages(text, [image]),
+        { onRetry: (_, attempt) => updateItem(item.id, { retries: attempt }) },
+      );
+      updateItem(item.id, { status: 'done', result });
+    } catch (err) {
+      console.error(err);
+      updateItem(item.id, { status: 'failed', error: describeError(err, 'This image could not be edited.') });
+    }
+  };
+
+  const run = async (batch: BatchItem[], text: string) => {
+    if (batch.length === 0 || !text) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const ids = new Set(batch.map(item => item.id));
+    setItems(prev => prev.map(item => (ids.has(item.id) ? { ...item, status: 'queued', result: undefined, error: undefined, retries: 0 } : item)));
+    setRunPrompt(text);
+    setIsRunning(true);
+    setError(null);
+    try {
+      await runWithConcurrency(batch, concurrency, item => processItem(item, text), controller.signal);
+    } finally {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(itemsToRun, instruction);
+  };
+
+  const handleDownloadAll = async () => {
+    setIsZipping(true);
+    try {
+      const zip = await zipBatchResults(items);
+      downloadFile(`${toFileName(runPrompt, 'batch')}.zip`, zip, 'application/zip');
+    } catch (err) {
+      console.error(err);
+      setError('Could not create the zip file. Please try again.');
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 flex-1">
+      <div className="flex flex-col">
+        <form onSubmit={handleSubmit} className="mb-6">
+          <div className="mb-4">
+            <label htmlFor="batch-upload" className="block text-gray-300 text-sm font-bold mb-2">
+              Upload Images
+            </label>
+            <input
+              type="file"
+              id="batch-upload"
+              accept="image/*"
+              multiple
+              onChange={handleFileChange}
+              className="w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600 cursor-pointer"
+              disabled={isRunning}
+            />
+          </div>
+          <div className="mb-4">
+            <label htmlFor="batch-prompt" className="block text-gray-300 text-sm font-bold mb-2">
+              Instruction for every image
+            </label>
+            <textarea
+              id="batch-prompt"
+              value={prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              placeholder="e.g., Remove the background, convert to watercolor"
+              className="w-full h-24 p-2 border border-gray-600 rounded-lg bg-gray-700 text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+              disabled={isRunning}
+            />
+          </div>
+          <div className="mb-4 flex items-center gap-2">
+            <label htmlFor="batch-concurrency" className="text-gray-300 text-sm font-bold">At a time</label>
+            <select
+              id="batch-concurrency"
+              value={concurrency}
+              onChange={e => setConcurrency(Number(e.target.value))}
+              disabled={isRunning}
+              className="bg-gray-700 border border-gray-600 rounded-md p-1.5 text-sm text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              {CONCURRENCY_OPTIONS.map(option => <option key={option} value={option} className="bg-gray-800">{option}</option>)}
+            </select>
+            <span className="text-xs text-gray-500">Fewer is slower but less likely to hit rate limits.</span>
+          </div>
+          {isRunning ? (
+            <button
+              type="button"
+              onClick={() => abortControllerRef.current?.abort()}
+              className="w-full px-4 py-3 bg-gray-600 text-white font-bold rounded-lg hover:bg-gray-500 transition-colors"
+            >
+              Stop after the current images
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!instruction || itemsToRun.length === 0}
+              className="w-full px-4 py-3 bg-blue-600 text-white font-bold rounded-lg disabled:bg-gray-600 disabled:cursor-not-allowed hover:bg-blue-700 transition-colors"
+            >
+              {itemsToRun.length > 0 ? `Edit ${itemsToRun.length} ${itemsToRun.length === 1 ? 'Image' : 'Images'}` : 'Edit Images'}
+            </button>
+          )}
+        </form>
+        {error && <p className="text-red-400 text-center mb-4">{error}</p>}
+      </div>
+
+      <div className="bg-gray-900 rounded-lg p-3 flex flex-col border border-gray-700 min-h-[400px]">
+        <div className="flex flex-wrap items-center gap-2 mb-2">
+          <h3 className="text-sm font-semibold text-gray-400 mr-auto">
+            {items.length > 0 ? `${doneCount} of ${items.length} done${failedCount > 0 ? `, ${failedCount} failed` : ''}` : 'Images'}
+          </h3>
+          {failedCount > 0 && !isRunning && (
+            <button onClick={() => run(items.filter(item => item.status === 'failed'), runPrompt)} className="px-2 py-1 text-xs rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200">
+              Retry failed
+            </button>
+          )}
+          <button
+            onClick={handleDownloadAll}
+            disabled={doneCount === 0 || isRunning || isZipping}
+            className="flex items-center gap-1 px-2 py-1 text-xs rounded-md bg-blue-600 hover:bg-blue-700 text-white disabled:bg-gray-600 disabled:cursor-not-allowed"
+          >
+            <DownloadIcon /> {isZipping ? 'Zipping...' : 'Download all (.zip)'}
+          </button>
+          <button onClick={() => setItems([])} disabled={isRunning || items.length === 0} className="px-2 py-1 text-xs rounded-md text-gray-400 hover:text-white disabled:text-gray-600">
+            Clear
+          </button>
+        </div>
+        {items.length > 0 && (
+          <div className="h-1.5 w-full bg-gray-700 rounded-full overflow-hidden mb-3" role="progressbar" aria-valuemin={0} aria-valuemax={items.length} aria-valuenow={doneCount} aria-label="Batch progress">
+            <div className="h-full bg-blue-500 transition-all" style={{ width: `${(doneCount / items.length) * 100}%` }} />
+          </div>
+        )}
+        {items.length > 0 ? (
+          <ul className="space-y-2 overflow-y-auto pr-1">
+            {items.map(item => (
+              <li key={item.id} className="flex items-center gap-3 bg-gray-800 rounded-md p-2">
+                <img src={item.source} alt="" className="w-14 h-14 object-cover rounded-md flex-shrink-0" />
+                <div className="w-14 h-14 flex-shrink-0 flex items-center justify-center rounded-md bg-gray-700">
+                  {item.result ? (
+                    <img src={item.result} alt={`Edited ${item.name}`} className="w-full h-full object-cover rounded-md" />
+                  ) : item.status === 'running' ? (
+                    <Spinner />
+                  ) : null}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-200 truncate" title={item.name}>{item.name}</p>
+                  <p className={`text-xs ${STATUS_COLOR[item.status]}`}>
+                    {STATUS_TEXT[item.status]}
+                    {item.status === 'running' && item.retries ? ` (retry ${item.retries})` : ''}
+                  </p>
+                  {item.status === 'failed' && item.error && <p className="text-xs text-gray-400 truncate" title={item.error}>{item.error}</p>}
+                </div>
+                {item.status === 'failed' && !isRunning && (
+                  <button onClick={() => run([item], runPrompt)} className="px-2 py-1 text-xs rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200">
+                    Retry
+                  </button>
+                )}
+                {item.result && (
+                  <a href={item.result} download={resultFileName(item)} className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-gray-700" aria-label={`Download edited ${item.name}`} title="Download">
+                    <DownloadIcon />
+                  </a>
+                )}
+                <button
+                  onClick={() => setItems(prev => prev.filter(other => other.id !== item.id))}
+                  disabled={isRunning}
+                  className="p-1 rounded-full text-gray-400 hover:text-white disabled:text-gray-600"
+                  aria-label={`Remove ${item.name}`}
+                >
+                  <CloseIcon className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="flex-1 flex items-center justify-center text-gray-500 text-center p-4">Upload the images to edit. Each one is edited on its own.</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchEditor;
@@ -1,17 +1,28 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { ChatMessage as Message } from '../types';
-import { textToSpeech, decode, decodeAudioData } from '../services/geminiService';
-import { SpeakerIcon, SendIcon, PaperclipIcon, CloseIcon, MicIcon, ImageIcon, CameraIcon } from './icons/Icons';
+import { BranchInfo, canRegenerate } from '../services/messageTree';
+import { ApprovalDecision } from '../services/toolPermissions';
+import { decode, decodeAudioData } from '../services/geminiService';
+import { modelProvider } from '../services/modelProvider';
+import { preprocessImage } from '../services/imagePreprocess';
+import { SpeakerIcon, SendIcon, PaperclipIcon, CloseIcon, MicIcon, ImageIcon, CameraIcon, StopIcon } from './icons/Icons';
 import { LiveVoice } from './App';
 import Camera from './Camera';
 import WelcomeScreen from './WelcomeScreen';
 import ChatMessage from './ChatMessage';
 
 interface ChatProps {
-    messages: Message[];
-    onSendMessage: (prompt: string, imageFile: File | null) => void;
+    messages: Message[]; // The active branch of the conversation
+    branches: Record<string, BranchInfo>;
+    onSendMessage: (prompt: string, imageFile: File | null) => Promise<void>; // Rejects if nothing was sent
     onEditMessage: (messageId: string, newText: string) => void;
+    onSwitchBranch: (messageId: string, offset: number) => void;
+    onRegenerate: (messageId: string) => void;
+    onStopGenerating: () => void;
+    onApprovalDecision: (messageId: string, decision: ApprovalDecision) => void;
+    highlightedMessageId?: string | null; // A search result to scroll to and flash
     isLoading: boolean;
+    isOnline: boolean; // Offline, sent messages wait in the outbox
     voice: LiveVoice;
     isAutoListenEnabled: boolean;
 }
@@ -42,13 +53,15 @@ const TypingIndicator = () => (
 );
 
 
-const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, onEditMessage, isLoading, voice, isAutoListenEnabled }) => {
+const Chat: React.FC<ChatProps> = ({ messages, branches, onSendMessage, onEditMessage, onSwitchBranch, onRegenerate, onStopGenerating, onApprovalDecision, highlightedMessageId, isLoading, isOnline, voice, isAutoListenEnabled }) => {
   const [input, setInput] = useState('');
   const [isTtsEnabled, setIsTtsEnabled] = useState(true);
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [isAttachmentMenuOpen, setIsAttachmentMenuOpen] = useState(false);
   const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [isPreparingImage, setIsPreparingImage] = useState(false);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
 
   // Voice Input State
   const [isListening, setIsListening] = useState(false);
@@ -66,6 +79,10 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, onEditMessage, isL
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   const prevIsLoading = usePrevious(isLoading);
+  // Once the reply starts streaming in, the growing message replaces the typing indicator.
+  const isStreaming = messages[messages.length - 1]?.isStreaming === true;
+  // Nothing is being typed while a tool waits for the user to approve it.
+  const isAwaitingApproval = messages.some(message => message.approval?.status === 'pending');
 
   useEffect(() => {
     // @ts-ignore
@@ -171,9 +188,18 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, onEditMessage, isL
   }, [isAutoListenEnabled, isLoading, isListening, userManuallyStopped, messages, isTtsPlaying, micError]);
 
 
+  const messageListRef = useRef<HTMLDivElement>(null);
+
   useEffect(() => {
+    // A search result being shown takes priority over following the newest message.
+    if (highlightedMessageId) {
+      messageListRef.current
+        ?.querySelector(`[data-message-id="${CSS.escape(highlightedMessageId)}"]`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      return;
+    }
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, isLoading]);
+  }, [messages, isLoading, highlightedMessageId]);
 
   const playTextAudio = useCallback(async (base64Audio: string) => {
     if (!audioContextRef.current || !base64Audio) return;
@@ -221,7 +247,7 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, onEditMessage, isL
     const lastMessage = messages[messages.length - 1];
     // Only play TTS for new messages (isLoading changed from true to false)
     if (isTtsEnabled && prevIsLoading && !isLoading && lastMessage?.role === 'model' && lastMessage.text && !lastMessage.isError) {
-        textToSpeech(lastMessage.text, voice).then(playTextAudio).catch(console.error);
+        modelProvider.textToSpeech(lastMessage.text, voice).then(playTextAudio).catch(console.error);
     }
   }, [isLoading, prevIsLoading, messages, isTtsEnabled, playTextAudio, voice]);
 
@@ -239,11 +265,25 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, onEditMessage, isL
     }
   }, [input]);
 
+  // Picked and captured images alike are downscaled and stripped of metadata before attaching.
+  const attachImage = async (file: File) => {
+    setAttachmentError(null);
+    setIsPreparingImage(true);
+    try {
+      const prepared = await preprocessImage(file);
+      setImageFile(prepared);
+      setImagePreview(URL.createObjectURL(prepared));
+    } catch (error) {
+      setAttachmentError(error instanceof Error ? error.message : 'Could not attach the image.');
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    } finally {
+      setIsPreparingImage(false);
+    }
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      setImageFile(file);
-      setImagePreview(URL.createObjectURL(file));
+      attachImage(e.target.files[0]);
     }
   };
 
@@ -255,15 +295,25 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, onEditMessage, isL
     }
   };
 
-  const handleSend = (prompt?: string) => {
+  const handleSend = async (prompt?: string) => {
     const finalInput = typeof prompt === 'string' ? prompt : input;
-    if ((!finalInput.trim() && !imageFile) || isLoading) return;
+    if ((!finalInput.trim() && !imageFile) || isLoading || isPreparingImage) return;
 
-    onSendMessage(finalInput, imageFile);
-    
+    const attachment = { file: imageFile, preview: imagePreview };
     setInput('');
     removeImage();
+    setAttachmentError(null);
     setUserManuallyStopped(false);
+
+    try {
+      await onSendMessage(finalInput, attachment.file);
+    } catch (error) {
+      // Nothing went out, so the draft and its attachment come back to try again.
+      setInput(finalInput);
+      setImageFile(attachment.file);
+      setImagePreview(attachment.preview);
+      setAttachmentError(error instanceof Error ? error.message : 'The message could not be sent.');
+    }
   };
   
   const toggleListening = () => {
@@ -298,25 +348,29 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, onEditMessage, isL
         <Camera
           onClose={() => setIsCameraOpen(false)}
           onCapture={(file) => {
-            setImageFile(file);
-            setImagePreview(URL.createObjectURL(file));
+            attachImage(file);
             setIsCameraOpen(false);
           }}
         />
       )}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+      <div ref={messageListRef} className="flex-1 overflow-y-auto p-4 space-y-4">
         {messages.length <= 1 ? (
           <WelcomeScreen onPromptClick={handleSend} />
         ) : (
           <>
-            {messages.map((msg) => (
+            {messages.map((msg, index) => (
               <ChatMessage
                 key={msg.id}
                 message={msg}
                 onEditMessage={onEditMessage}
+                branch={branches[msg.id]}
+                isHighlighted={msg.id === highlightedMessageId}
+                onApprovalDecision={onApprovalDecision}
+                onSwitchBranch={isLoading ? undefined : onSwitchBranch}
+                onRegenerate={isLoading || !canRegenerate(msg, messages[index - 1]) ? undefined : onRegenerate}
               />
             ))}
-            {isLoading && <TypingIndicator />}
+            {isLoading && !isStreaming && !isAwaitingApproval && <TypingIndicator />}
             <div ref={messagesEndRef} />
           </>
         )}
@@ -324,9 +378,17 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, onEditMessage, isL
       
       <div className="p-4 w-full sticky bottom-0 bg-gray-800/80 backdrop-blur-sm">
         <div className="w-full max-w-3xl mx-auto flex flex-col items-center">
+            {!isOnline && (
+                <p className="text-center text-yellow-300 text-sm mb-2 px-4" role="status">
+                    You're offline. Messages you send now will go out when the connection is back.
+                </p>
+            )}
             {micError && (
                 <p className="text-center text-red-400 text-sm mb-2 px-4">{micError}</p>
             )}
+            {attachmentError && (
+                <p className="text-center text-red-400 text-sm mb-2 px-4" role="alert">{attachmentError}</p>
+            )}
             <div className="relative w-full p-2 border border-gray-600 rounded-xl bg-gray-700 flex items-center gap-2">
                 <button
                     onClick={toggleListening}
@@ -382,6 +444,8 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, onEditMessage, isL
                 placeholder={
                     isListening 
                         ? "Listening..." 
+                        : !isOnline
+                        ? "Offline. Message Intellecto to send later..."
                         : micPermission === 'denied'
                         ? "Voice input disabled. Type a message."
                         : "Message Intellecto..."
@@ -391,10 +455,18 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, onEditMessage, isL
                 rows={1}
                 style={{maxHeight: '200px'}}
               />
-                { (input.trim() || imageFile) &&
+                { isLoading ? (
+                    <button 
+                        onClick={onStopGenerating} 
+                        className="p-2 bg-gray-200 text-gray-900 rounded-full transition-colors hover:bg-white"
+                        aria-label="Stop generating"
+                    >
+                        <StopIcon />
+                    </button>
+                ) : (input.trim() || imageFile) &&
                     <button 
                         onClick={() => handleSend()} 
-                        disabled={isLoading} 
+                        disabled={isLoading || isPreparingImage} 
                         className="p-2 bg-blue-600 text-white rounded-full transition-colors hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed"
                         aria-label="Send message"
                     >
@@ -402,6 +474,9 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, onEditMessage, isL
                     </button>
                 }
             </div>
+            {isPreparingImage && (
+                <p className="mt-3 text-xs text-gray-400" role="status">Preparing image...</p>
+            )}
             {imagePreview && (
                 <div className="mt-3 p-2 border border-gray-600 rounded-lg bg-gray-700 relative w-fit self-start">
                   <img src={imagePreview} alt="Preview" className="h-24 w-auto rounded-md" />
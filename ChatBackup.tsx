@@ -0,0 +1,94 @@
+import React, { useRef, useState } from 'react';
+import { ChatSession } from '../types';
+import { exportToHtml, exportToJson, exportToMarkdown, importFromJson } from '../services/chatExport';
+import { downloadFile, toFileName } from '../services/download';
+
+interface ChatBackupProps {
+  sessions: ChatSession[];
+  activeSession?: ChatSession;
+  onImport: (sessions: ChatSession[]) => void;
+}
+
+type ExportFormat = 'json' | 'markdown' | 'html';
+
+const EXPORTERS: Record<ExportFormat, { extension: string, mimeType: string, render: (sessions: ChatSession[]) => string }> = {
+  json: { extension: 'json', mimeType: 'application/json', render: exportToJson },
+  markdown: { extension: 'md', mimeType: 'text/markdown', render: exportToMarkdown },
+  html: { extension: 'html', mimeType: 'text/html', render: exportToHtml },
+};
+
+const ChatBackup: React.FC<ChatBackupProps> = ({ sessions, activeSession, onImport }) => {
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [status, setStatus] = useState<{ text: string, isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = (toExport: ChatSession[], name: string) => {
+    const exporter = EXPORTERS[format];
+    downloadFile(`${name}.${exporter.extension}`, exporter.render(toExport), exporter.mimeType);
+    setStatus(null);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+    try {
+      const imported = importFromJson(await file.text(), sessions);
+      onImport(imported);
+      setStatus({ text: `Imported ${imported.length} chat${imported.length === 1 ? '' : 's'}.`, isError: false });
+    } catch (error: any) {
+      console.error("Failed to import chats:", error);
+      setStatus({ text: error?.message || 'Could not import this file.', isError: true });
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      <label htmlFor="export-format" className="block text-xs font-medium text-gray-400 mb-2">Export & Import</label>
+      <select
+        id="export-format"
+        value={format}
+        onChange={e => setFormat(e.target.value as ExportFormat)}
+        className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+      >
+        <option value="json" className="bg-gray-800">JSON (full backup)</option>
+        <option value="markdown" className="bg-gray-800">Markdown</option>
+        <option value="html" className="bg-gray-800">HTML page</option>
+      </select>
+      <div className="grid grid-cols-3 gap-2 mt-2">
+        <button
+          onClick={() => activeSession && handleExport([activeSession], toFileName(activeSession.title))}
+          disabled={!activeSession}
+          className="px-2 py-1.5 text-xs rounded-md border border-gray-600 hover:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+        >
+          This chat
+        </button>
+        <button
+          onClick={() => handleExport(sessions, `intellecto-chats-${new Date().toISOString().slice(0, 10)}`)}
+          disabled={sessions.length === 0}
+          className="px-2 py-1.5 text-xs rounded-md border border-gray-600 hover:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+        >
+          All chats
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-2 py-1.5 text-xs rounded-md border border-gray-600 hover:bg-gray-700"
+        >
+          Import
+        </button>
+      </div>
+      {status && (
+        <p className={`mt-2 text-xs ${status.isError ? 'text-red-400' : 'text-green-400'}`}>{status.text}</p>
+      )}
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={handleImportFile}
+        className="hidden"
+        accept="application/json,.json"
+      />
+    </div>
+  );
+};
+
+export default ChatBackup;
@@ -1,16 +1,30 @@
 import React, { ReactNode, useState, useRef, useEffect } from 'react';
 import { ChatMessage as Message } from '../types';
-import { IntellectoIcon } from './icons/Icons';
-import CodeBlock from './CodeBlock';
+import { BranchInfo } from '../services/messageTree';
+import { ApprovalDecision } from '../services/toolPermissions';
+import { describeUsage, formatTokens, totalTokens } from '../services/usage';
+import { IntellectoIcon, RegenerateIcon } from './icons/Icons';
+import Markdown from './Markdown';
 
 interface ChatMessageProps {
     message: Message;
     children?: ReactNode;
     onEditMessage?: (messageId: string, newText: string) => void;
+    branch?: BranchInfo;
+    onSwitchBranch?: (messageId: string, offset: number) => void;
+    onRegenerate?: (messageId: string) => void;
+    isHighlighted?: boolean;
+    onApprovalDecision?: (messageId: string, decision: ApprovalDecision) => void;
 }
 
-const ChatMessage: React.FC<ChatMessageProps> = ({ message, children, onEditMessage }) => {
-    const { id, role, text, image, generatedImage, sources, isError } = message;
+const APPROVAL_OUTCOMES: Record<string, { label: string, className: string }> = {
+    allowed: { label: 'Allowed', className: 'text-green-400' },
+    denied: { label: 'Not allowed', className: 'text-red-400' },
+    expired: { label: 'Not answered', className: 'text-gray-400' },
+};
+
+const ChatMessage: React.FC<ChatMessageProps> = ({ message, children, onEditMessage, branch, onSwitchBranch, onRegenerate, isHighlighted, onApprovalDecision }) => {
+    const { id, role, text, image, generatedImage, sources, isError, isStreaming, approval, pendingSince, usage } = message;
 
     const [isMenuOpen, setIsMenuOpen] = useState(false);
     const [isEditing, setIsEditing] = useState(false);
@@ -73,14 +87,7 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, children, onEditMess
         if (!inputText && !children) return null;
         if (children) return children;
         
-        const parts = inputText.split(/(```[\s\S]*?```)/g);
-        return parts.map((part, index) => {
-            if (part.startsWith('```') && part.endsWith('```')) {
-                const code = part.slice(3, -3).trim();
-                return <CodeBlock key={index} code={code} />;
-            }
-            return part && <div key={index} className="whitespace-pre-wrap">{part}</div>;
-        });
+        return <Markdown text={inputText} />;
     };
     
     const bubbleClass = isUser 
@@ -89,13 +96,19 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, children, onEditMess
         ? 'bg-red-800/50 text-gray-200' 
         : 'bg-gray-700 text-gray-200';
     
-    const alignmentClass = isUser ? 'justify-end' : 'justify-start';
+    const alignmentClass = isUser ? 'items-end' : 'items-start';
+    const isPending = pendingSince !== undefined;
+    // Chat only passes onRegenerate for replies that can be asked for again (see messageTree).
+    const canRegenerate = !isUser && !!onRegenerate && !isStreaming;
 
     // Editing View
     if (isUser && isEditing) {
         return (
             <div className={`flex justify-end w-full`}>
                 <div className={`max-w-2xl w-full flex flex-col p-2 rounded-xl bg-blue-600`}>
+                    {image && (
+                        <img src={image} alt="Attached image (sent again with the edit)" className="rounded-lg mb-2 max-h-32 w-auto self-start object-cover" />
+                    )}
                     <textarea 
                         value={editedText}
                         onChange={(e) => setEditedText(e.target.value)}
@@ -122,9 +135,9 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, children, onEditMess
 
     // Display View
     return (
-        <div ref={wrapperRef} className={`flex ${alignmentClass} w-full`}>
+        <div ref={wrapperRef} data-message-id={id} className={`flex flex-col ${alignmentClass} w-full`}>
             <div 
-                className={`max-w-2xl p-4 rounded-xl relative ${bubbleClass} ${isUser ? 'cursor-pointer' : ''}`}
+                className={`max-w-2xl p-4 rounded-xl relative transition-shadow duration-500 ${bubbleClass} ${isPending ? 'opacity-70' : ''} ${isUser ? 'cursor-pointer' : ''} ${isHighlighted ? 'ring-2 ring-yellow-400 animate-pulse' : ''}`}
                 onMouseDown={isUser ? handlePressStart : undefined}
                 onMouseUp={isUser ? handlePressEnd : undefined}
                 onTouchStart={isUser ? handlePressStart : undefined}
@@ -134,8 +147,13 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, children, onEditMess
                  {isMenuOpen && (
                     <div className="absolute bottom-full mb-1 left-1/2 -translate-x-1/2 flex items-center bg-gray-900 border border-gray-600 rounded-lg shadow-lg z-10 p-1 animate-fade-in-up">
                         <button onClick={handleCopy} className="px-3 py-1.5 text-sm text-gray-200 hover:bg-gray-700 rounded-md">Copy</button>
-                        <div className="h-4 w-px bg-gray-600 mx-1"></div>
-                        <button onClick={handleEditClick} className="px-3 py-1.5 text-sm text-gray-200 hover:bg-gray-700 rounded-md">Edit</button>
+                        {/* Editing sends right away, which can't happen while the message waits for a connection. */}
+                        {!isPending && (
+                            <>
+                                <div className="h-4 w-px bg-gray-600 mx-1"></div>
+                                <button onClick={handleEditClick} className="px-3 py-1.5 text-sm text-gray-200 hover:bg-gray-700 rounded-md">Edit</button>
+                            </>
+                        )}
                     </div>
                 )}
 
@@ -145,8 +163,28 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, children, onEditMess
                 {generatedImage && (
                     <img src={generatedImage} alt="Generated by AI" className="rounded-lg mb-2 max-h-96 w-auto object-contain" />
                 )}
+                {approval?.status === 'pending' && (
+                    <div className="min-w-[16rem]" role="group" aria-label="Approve tool action">
+                        <p className="text-sm font-semibold">Intellecto wants to:</p>
+                        <p className="mt-1 mb-3 font-mono text-sm break-all bg-gray-900/60 rounded px-2 py-1">{approval.action}</p>
+                        <div className="flex flex-wrap gap-2">
+                            <button onClick={() => onApprovalDecision?.(id, 'once')} className="px-3 py-1 text-xs rounded-md bg-blue-600 text-white font-semibold hover:bg-blue-500">Allow once</button>
+                            <button onClick={() => onApprovalDecision?.(id, 'always')} className="px-3 py-1 text-xs rounded-md border border-gray-500 text-gray-200 hover:bg-gray-600">Always allow</button>
+                            <button onClick={() => onApprovalDecision?.(id, 'deny')} className="px-3 py-1 text-xs rounded-md border border-gray-500 text-gray-200 hover:bg-gray-600">Deny</button>
+                        </div>
+                    </div>
+                )}
+                {approval && approval.status !== 'pending' && (
+                    <p className="text-xs text-gray-400 mb-2">
+                        <span className={APPROVAL_OUTCOMES[approval.status].className}>{APPROVAL_OUTCOMES[approval.status].label}:</span>{' '}
+                        <span className="font-mono break-all">{approval.action}</span>
+                    </p>
+                )}
                 <div className="prose prose-invert max-w-none prose-p:my-0">
                     {renderText(text)}
+                    {isStreaming && (
+                        <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-300 animate-pulse" aria-hidden="true"></span>
+                    )}
                 </div>
                  {sources && sources.length > 0 && (
                     <div className="mt-3 pt-3 border-t border-gray-500/50">
@@ -163,6 +201,54 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, children, onEditMess
                     </div>
                 )}
             </div>
+            {isPending && (
+                <p className="mt-1 text-xs text-yellow-300" role="status">
+                    Pending, sends when you're back online
+                </p>
+            )}
+            {(branch || canRegenerate || usage) && (
+                <div className="flex items-center gap-2 mt-1 text-xs text-gray-400 select-none">
+                    {branch && (
+                        <div className="flex items-center" aria-label="Switch between versions">
+                            <button
+                                onClick={() => onSwitchBranch?.(id, -1)}
+                                disabled={!onSwitchBranch || branch.index === 0}
+                                className="px-1.5 py-0.5 rounded hover:bg-gray-700 hover:text-white disabled:opacity-40 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                                aria-label="Previous version"
+                            >
+                                &lt;
+                            </button>
+                            <span className="mx-1 tabular-nums">{branch.index + 1}/{branch.count}</span>
+                            <button
+                                onClick={() => onSwitchBranch?.(id, 1)}
+                                disabled={!onSwitchBranch || branch.index === branch.count - 1}
+                                className="px-1.5 py-0.5 rounded hover:bg-gray-700 hover:text-white disabled:opacity-40 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                                aria-label="Next version"
+                            >
+                                &gt;
+                            </button>
+                        </div>
+                    )}
+                    {canRegenerate && (
+                        <button
+                            onClick={() => onRegenerate!(id)}
+                            className="flex items-center px-1.5 py-0.5 rounded hover:bg-gray-700 hover:text-white"
+                            aria-label={isError ? 'Retry this response' : 'Regenerate this response'}
+                        >
+                            <RegenerateIcon />
+                            <span className="ml-1">{isError ? 'Retry' : 'Regenerate'}</span>
+                        </button>
+                    )}
+                    {usage && !isStreaming && (
+                        <span
+                            className="tabular-nums"
+                            title={describeUsage(usage)}
+                        >
+                            {formatTokens(totalTokens(usage))} tokens
+                        </span>
+                    )}
+                </div>
+            )}
         </div>
     );
 };
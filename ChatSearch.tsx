@@ -0,0 +1,87 @@
+import React, { ReactNode, useDeferredValue, useMemo, useRef, useState } from 'react';
+import { ChatSession } from '../types';
+import { createSearchIndex, SearchResult } from '../services/searchIndex';
+import { CloseIcon, SearchIcon } from './icons/Icons';
+
+interface ChatSearchProps {
+  sessions: ChatSession[];
+  onSelectResult: (sessionId: string, messageId: string) => void;
+  children: ReactNode; // Shown instead of results while the search box is empty
+}
+
+const HighlightedSnippet: React.FC<{ result: SearchResult }> = ({ result }) => {
+  const parts: ReactNode[] = [];
+  let position = 0;
+  result.highlights.forEach(([start, end], i) => {
+    if (start < position) return;
+    parts.push(result.snippet.slice(position, start));
+    parts.push(<mark key={i} className="bg-yellow-400/30 text-yellow-100 rounded-sm">{result.snippet.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(result.snippet.slice(position));
+  return <>{parts}</>;
+};
+
+const ChatSearch: React.FC<ChatSearchProps> = ({ sessions, onSelectResult, children }) => {
+  const [query, setQuery] = useState('');
+  // Typing stays responsive even if a search over a large history takes a moment.
+  const deferredQuery = useDeferredValue(query);
+  const indexRef = useRef(createSearchIndex());
+
+  const results = useMemo(() => {
+    // Only messages that changed since the last update are re-indexed.
+    indexRef.current.update(sessions);
+    return indexRef.current.search(deferredQuery);
+  }, [sessions, deferredQuery]);
+
+  const titles = useMemo(() => new Map(sessions.map(session => [session.id, session.title])), [sessions]);
+  const isSearching = query.trim().length > 0;
+
+  return (
+    <>
+      <div className="relative mb-4">
+        <span className="absolute inset-y-0 left-3 flex items-center text-gray-400 pointer-events-none">
+          <SearchIcon />
+        </span>
+        <input
+          type="search"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Escape') setQuery(''); }}
+          placeholder="Search all chats"
+          aria-label="Search all chats"
+          className="w-full bg-gray-800 border border-gray-600 rounded-lg py-2 pl-9 pr-8 text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-blue-500 [&::-webkit-search-cancel-button]:hidden"
+        />
+        {isSearching && (
+          <button onClick={() => setQuery('')} className="absolute inset-y-0 right-2 flex items-center text-gray-400 hover:text-white" aria-label="Clear search">
+            <CloseIcon className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto -mr-2 pr-2 space-y-2">
+        {!isSearching ? children : results.length === 0 ? (
+          <p className="text-sm text-gray-500 px-1">{deferredQuery === query ? 'No messages match your search.' : 'Searching…'}</p>
+        ) : (
+          results.map(result => (
+            <button
+              key={result.messageId}
+              onClick={() => onSelectResult(result.sessionId, result.messageId)}
+              className={`w-full text-left p-3 rounded-lg hover:bg-gray-700/50 transition-colors ${deferredQuery !== query ? 'opacity-60' : ''}`}
+            >
+              <div className="flex items-center justify-between gap-2 text-xs text-gray-400 mb-1">
+                <span className="truncate font-medium text-gray-300">{titles.get(result.sessionId)}</span>
+                <span className="shrink-0">{result.role === 'user' ? 'You' : 'Intellecto'}</span>
+              </div>
+              <p className="text-sm text-gray-300 line-clamp-3 break-words">
+                <HighlightedSnippet result={result} />
+              </p>
+            </button>
+          ))
+        )}
+      </div>
+    </>
+  );
+};
+
+export default ChatSearch;
@@ -1,12 +1,56 @@
-import React, { useState } from 'react';
-import { CopyIcon, CheckIcon } from './icons/Icons';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import hljs from 'highlight.js/lib/common';
+import { CopyIcon, CheckIcon, DownloadIcon, PlayIcon, CloseIcon } from './icons/Icons';
+import { getFileExtension, getLanguageLabel, normalizeLanguage } from '../services/codeLanguages';
+import { downloadFile } from '../services/download';
+import { buildSandboxDocument, isRunnableLanguage, SandboxLogEntry, SANDBOX_MESSAGE_SOURCE } from '../services/codeSandbox';
 
 interface CodeBlockProps {
   code: string;
+  language?: string; // Fence info string, e.g. "python" or "js"
 }
 
-const CodeBlock: React.FC<CodeBlockProps> = ({ code }) => {
+const LINE_NUMBERS_KEY = 'intellecto-code-line-numbers';
+
+const logLevelClass: Record<SandboxLogEntry['level'], string> = {
+  log: 'text-gray-300',
+  info: 'text-blue-300',
+  warn: 'text-yellow-300',
+  error: 'text-red-400',
+};
+
+const CodeBlock: React.FC<CodeBlockProps> = ({ code, language: languageInfo }) => {
   const [copied, setCopied] = useState(false);
+  const [showLineNumbers, setShowLineNumbers] = useState(() => localStorage.getItem(LINE_NUMBERS_KEY) === 'true');
+  const [run, setRun] = useState<{ id: string, document: string } | null>(null);
+  const [logs, setLogs] = useState<SandboxLogEntry[]>([]);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+
+  const language = normalizeLanguage(languageInfo);
+  const canRun = isRunnableLanguage(language);
+
+  // hljs escapes the source, so its output is safe to inject.
+  const highlighted = useMemo(() => {
+    if (language && hljs.getLanguage(language)) {
+      return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+    }
+    return hljs.highlightAuto(code).value;
+  }, [code, language]);
+
+  const lineCount = useMemo(() => code.split('\n').length, [code]);
+
+  // Console output from the sandbox arrives as postMessage events tagged with the run ID.
+  useEffect(() => {
+    if (!run) return;
+    const handleMessage = (event: MessageEvent) => {
+      const data = event.data;
+      if (event.source !== iframeRef.current?.contentWindow) return;
+      if (data?.source !== SANDBOX_MESSAGE_SOURCE || data.runId !== run.id) return;
+      setLogs(prev => [...prev, { level: data.level, text: String(data.text) }]);
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [run]);
 
   const handleCopy = () => {
     navigator.clipboard.writeText(code);
@@ -14,20 +58,93 @@ const CodeBlock: React.FC<CodeBlockProps> = ({ code }) => {
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const handleDownload = () => {
+    downloadFile(`snippet.${getFileExtension(language)}`, code, 'text/plain');
+  };
+
+  const toggleLineNumbers = () => {
+    setShowLineNumbers(prev => {
+      localStorage.setItem(LINE_NUMBERS_KEY, String(!prev));
+      return !prev;
+    });
+  };
+
+  const handleRun = () => {
+    if (!isRunnableLanguage(language)) return;
+    const id = `run-${Date.now()}`;
+    setLogs([]);
+    setRun({ id, document: buildSandboxDocument(code, language, id) });
+  };
+
+  // Removing the iframe is also how a runaway snippet gets stopped.
+  const handleCloseRun = () => {
+    setRun(null);
+    setLogs([]);
+  };
+
   return (
     <div className="bg-gray-900 rounded-md my-2 text-sm text-left">
       <div className="flex items-center justify-between px-4 py-1.5 bg-gray-800 rounded-t-md">
-        <span className="text-xs text-gray-400">Code</span>
-        <button onClick={handleCopy} className="flex items-center text-xs text-gray-400 hover:text-white transition-colors">
-          {copied ? <CheckIcon /> : <CopyIcon />}
-          <span className="ml-1.5">{copied ? 'Copied!' : 'Copy code'}</span>
-        </button>
+        <span className="text-xs text-gray-400">{getLanguageLabel(language)}</span>
+        <div className="flex items-center gap-3">
+          <button onClick={toggleLineNumbers} className={`text-xs transition-colors ${showLineNumbers ? 'text-white' : 'text-gray-400 hover:text-white'}`} aria-pressed={showLineNumbers}>
+            Line numbers
+          </button>
+          {canRun && (
+            <button onClick={handleRun} className="flex items-center text-xs text-gray-400 hover:text-white transition-colors">
+              <PlayIcon />
+              <span className="ml-1.5">Run</span>
+            </button>
+          )}
+          <button onClick={handleDownload} className="flex items-center text-xs text-gray-400 hover:text-white transition-colors">
+            <DownloadIcon />
+            <span className="ml-1.5">Download</span>
+          </button>
+          <button onClick={handleCopy} className="flex items-center text-xs text-gray-400 hover:text-white transition-colors">
+            {copied ? <CheckIcon /> : <CopyIcon />}
+            <span className="ml-1.5">{copied ? 'Copied!' : 'Copy code'}</span>
+          </button>
+        </div>
+      </div>
+      <div className="flex overflow-x-auto">
+        {showLineNumbers && (
+          <div className="py-4 pl-4 pr-3 text-right text-gray-500 font-mono select-none border-r border-gray-700" aria-hidden="true">
+            {Array.from({ length: lineCount }, (_, i) => <div key={i}>{i + 1}</div>)}
+          </div>
+        )}
+        <pre className="p-4 flex-1 text-gray-200">
+          <code className={`font-mono hljs bg-transparent p-0 ${language ? `language-${language}` : ''}`} dangerouslySetInnerHTML={{ __html: highlighted }} />
+        </pre>
       </div>
-      <pre className="p-4 overflow-x-auto text-gray-200">
-        <code className="font-mono">{code}</code>
-      </pre>
+      {run && (
+        <div className="border-t border-gray-700">
+          <div className="flex items-center justify-between px-4 py-1.5 bg-gray-800">
+            <span className="text-xs text-gray-400">Output (sandboxed)</span>
+            <button onClick={handleCloseRun} className="text-gray-400 hover:text-white" aria-label="Stop and close output">
+              <CloseIcon className="w-4 h-4" />
+            </button>
+          </div>
+          <iframe
+            key={run.id}
+            ref={iframeRef}
+            title="Code output"
+            sandbox="allow-scripts"
+            srcDoc={run.document}
+            className={language === 'html' ? 'w-full h-64 bg-white' : 'hidden'}
+          />
+          <div className="px-4 py-2 font-mono text-xs max-h-48 overflow-y-auto">
+            {logs.length === 0 ? (
+              <div className="text-gray-500">No console output.</div>
+            ) : (
+              logs.map((entry, i) => (
+                <div key={i} className={`whitespace-pre-wrap ${logLevelClass[entry.level] || 'text-gray-300'}`}>{entry.text}</div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
 
-export default CodeBlock;
\ No newline at end of file
+export default CodeBlock;
@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+
+interface CompareSliderProps {
+  before: string;
+  after: string;
+}
+
+// The "after" image laid over the "before" one, cut off at the slider so dragging it
+// wipes between the two.
+const CompareSlider: React.FC<CompareSliderProps> = ({ before, after }) => {
+  const [position, setPosition] = useState(50);
+
+  return (
+    <div className="flex flex-col items-center w-full h-full min-h-0">
+      <div className="relative max-w-full flex-1 min-h-0 select-none">
+        <img src={before} alt="Before" className="block max-w-full max-h-64 object-contain rounded-md" draggable={false} />
+        <img
+          src={after}
+          alt="After"
+          className="absolute inset-0 w-full h-full object-contain rounded-md"
+          style={{ clipPath: `inset(0 0 0 ${position}%)` }}
+          draggable={false}
+        />
+        <div className="absolute inset-y-0 w-0.5 bg-white/80 pointer-events-none" style={{ left: `${position}%` }} aria-hidden="true" />
+        <span className="absolute top-1 left-1 text-[10px] uppercase bg-black/60 text-white rounded px-1">Before</span>
+        <span className="absolute top-1 right-1 text-[10px] uppercase bg-black/60 text-white rounded px-1">After</span>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={position}
+        onChange={e => setPosition(Number(e.target.value))}
+        className="w-full max-w-xs mt-2"
+        aria-label="Compare before and after"
+      />
+    </div>
+  );
+};
+
+export default CompareSlider;
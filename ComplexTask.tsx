@@ -0,0 +1,257 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { TokenUsage } from '../types';
+import { modelProvider } from '../services/modelProvider';
+import { describeError, withRetry } from '../services/errors';
+import { recordUsage, toTokenUsage } from '../services/usage';
+import {
+  getThinkingBudget,
+  readChunk,
+  sectionsToMarkdown,
+  splitSections,
+  splitThoughts,
+  taskToMarkdown,
+  TextSection,
+  THINKING_BUDGETS,
+} from '../services/complexTask';
+import { downloadFile, toFileName } from '../services/download';
+import Markdown from './Markdown';
+import { CheckIcon, CopyIcon, DownloadIcon, LightbulbIcon, SendIcon } from './icons/Icons';
+
+interface ComplexTaskProps {
+  // Adds the problem and the chosen part of the answer to the current chat.
+  onSendToChat: (problem: string, answer: string) => void;
+}
+
+type TaskStatus = 'idle' | 'thinking' | 'answering' | 'done' | 'stopped';
+
+const STATUS_TEXT: Record<TaskStatus, string> = {
+  idle: '',
+  thinking: 'Thinking...',
+  answering: 'Writing the answer...',
+  done: 'Done',
+  stopped: 'Stopped',
+};
+
+interface SectionActionsProps {
+  markdown: string;
+  onSendToChat: () => void;
+  label: string;
+}
+
+const SectionActions: React.FC<SectionActionsProps> = ({ markdown, onSendToChat, label }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(markdown);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <button onClick={handleCopy} className="p-1.5 text-gray-400 hover:text-white rounded-md" aria-label={`Copy ${label}`} title="Copy">
+        {copied ? <CheckIcon /> : <CopyIcon />}
+      </button>
+      <button onClick={onSendToChat} className="p-1.5 text-gray-400 hover:text-white rounded-md" aria-label={`Send ${label} to chat`} title="Send to chat">
+        <SendIcon />
+      </button>
+    </div>
+  );
+};
+
+const ComplexTask: React.FC<ComplexTaskProps> = ({ onSendToChat }) => {
+  const [prompt, setPrompt] = useState('');
+  const [budgetId, setBudgetId] = useState(THINKING_BUDGETS[0].id);
+  const [status, setStatus] = useState<TaskStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  // The problem the current thoughts and answer belong to; the input may have changed since.
+  const [problem, setProblem] = useState('');
+  const [thoughts, setThoughts] = useState('');
+  const [answer, setAnswer] = useState('');
+  const [showThoughts, setShowThoughts] = useState(true);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const thoughtsEndRef = useRef<HTMLLIElement>(null);
+
+  const isRunning = status === 'thinking' || status === 'answering';
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (status === 'thinking') thoughtsEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [thoughts, status]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!prompt.trim() || isRunning) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setProblem(prompt.trim());
+    setThoughts('');
+    setAnswer('');
+    setError(null);
+    setShowThoughts(true);
+    setStatus('thinking');
+    // Logged even when stopped, since the tokens spent so far are still billed.
+    let usage: TokenUsage | undefined;
+
+    try {
+      // Only starting the stream is retried; once thoughts are showing, a failure ends the task.
+      const stream = await withRetry(() => modelProvider.streamComplexText(prompt.trim(), {
+        thinkingBudget: getThinkingBudget(budgetId).tokens,
+        signal: controller.signal,
+      }), { signal: controller.signal });
+      for await (const chunk of stream) {
+        usage = toTokenUsage(chunk.usageMetadata) || usage;
+        const { thought, answer: answerText } = readChunk(chunk);
+        if (thought) setThoughts(prev => prev + thought);
+        if (answerText) {
+          setStatus('answering');
+          setAnswer(prev => prev + answerText);
+        }
+      }
+      setStatus('done');
+      setShowThoughts(false);
+    } catch (err) {
+      if (controller.signal.aborted) {
+        setStatus('stopped');
+        return;
+      }
+      console.error("Error solving complex task:", err);
+      setError(describeError(err, 'Something went wrong while working on this problem. Please try again.'));
+      setStatus('stopped');
+    } finally {
+      recordUsage('complexTask', usage);
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+    }
+  };
+
+  const handleStop = () => abortControllerRef.current?.abort();
+
+  const steps = splitThoughts(thoughts);
+  const sections: TextSection[] = answer.trim() ? splitSections(answer) : [];
+  const allMarkdown = sectionsToMarkdown(sections);
+
+  const handleSave = () => {
+    downloadFile(`${toFileName(problem, 'complex-task')}.md`, taskToMarkdown(problem, sections), 'text/markdown');
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-gray-800 p-6 overflow-y-auto">
+      <div className="p-4 bg-gray-900 border-b border-gray-700 mb-6 rounded-t-lg">
+        <h2 className="text-xl font-bold">Complex Task</h2>
+        <p className="text-sm text-gray-400">Give a thinking model a hard problem and follow its reasoning as it works.</p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="mb-6 space-y-4">
+        <div>
+          <label htmlFor="complex-prompt" className="block text-gray-300 text-sm font-bold mb-2">Problem</label>
+          <textarea
+            id="complex-prompt"
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder="e.g., Plan a two-week rollout of a database migration with zero downtime, including rollback steps"
+            className="w-full h-32 p-2 border border-gray-600 rounded-lg bg-gray-700 text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+            disabled={isRunning}
+          />
+        </div>
+        <fieldset disabled={isRunning}>
+          <legend className="block text-gray-300 text-sm font-bold mb-2">Thinking budget</legend>
+          <div className="flex flex-wrap gap-2">
+            {THINKING_BUDGETS.map(budget => (
+              <button
+                key={budget.id}
+                type="button"
+                onClick={() => setBudgetId(budget.id)}
+                aria-pressed={budgetId === budget.id}
+                className={`px-3 py-1.5 text-sm rounded-md transition-colors ${budgetId === budget.id ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+              >
+                {budget.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400 mt-2">{getThinkingBudget(budgetId).description}</p>
+        </fieldset>
+        {isRunning ? (
+          <button type="button" onClick={handleStop} className="w-full px-4 py-3 bg-red-600 text-white font-bold rounded-lg hover:bg-red-700 transition-colors">
+            Stop
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!prompt.trim()}
+            className="w-full px-4 py-3 bg-blue-600 text-white font-bold rounded-lg disabled:bg-gray-600 disabled:cursor-not-allowed hover:bg-blue-700 transition-colors"
+          >
+            Solve
+          </button>
+        )}
+        {error && <p className="text-red-400 text-center">{error}</p>}
+      </form>
+
+      {status !== 'idle' && (
+        <div className="space-y-6">
+          <section className="bg-gray-900 rounded-lg border border-gray-700">
+            <button
+              onClick={() => setShowThoughts(!showThoughts)}
+              className="w-full flex items-center justify-between p-3 text-sm font-semibold text-gray-300"
+              aria-expanded={showThoughts}
+            >
+              <span className="flex items-center gap-2">
+                <LightbulbIcon />
+                {status === 'thinking' ? 'Thinking...' : `Reasoning (${steps.length} ${steps.length === 1 ? 'step' : 'steps'})`}
+              </span>
+              <span className="text-xs text-gray-500">{showThoughts ? 'Hide' : 'Show'}</span>
+            </button>
+            {showThoughts && (
+              <ol className="px-4 pb-4 space-y-3">
+                {steps.length === 0 && status === 'thinking' && (
+                  <li className="text-sm text-gray-500 animate-pulse">Waiting for the first thoughts...</li>
+                )}
+                {steps.map((step, index) => (
+                  <li key={index} className="border-l-2 border-gray-600 pl-3">
+                    <p className={`text-sm font-semibold ${status === 'thinking' && index === steps.length - 1 ? 'text-blue-300 animate-pulse' : 'text-gray-200'}`}>{step.title}</p>
+                    {step.body && <div className="text-sm text-gray-400"><Markdown text={step.body} /></div>}
+                  </li>
+                ))}
+                <li ref={thoughtsEndRef} aria-hidden="true" />
+              </ol>
+            )}
+          </section>
+
+          {sections.length > 0 && (
+            <section className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold">Answer <span className="text-xs font-normal text-gray-500 ml-2">{STATUS_TEXT[status]}</span></h3>
+                {!isRunning && (
+                  <div className="flex items-center gap-1">
+                    <button onClick={handleSave} className="flex items-center gap-1 px-2 py-1 text-xs rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200">
+                      <DownloadIcon /> Save
+                    </button>
+                    <SectionActions markdown={allMarkdown} label="the whole answer" onSendToChat={() => onSendToChat(problem, allMarkdown)} />
+                  </div>
+                )}
+              </div>
+              {sections.map((section, index) => (
+                <article key={index} className="bg-gray-900 rounded-lg p-4 border border-gray-700">
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="font-semibold text-gray-100">{section.title}</h4>
+                    {!isRunning && (
+                      <SectionActions
+                        markdown={`## ${section.title}\n\n${section.body}`}
+                        label={`the ${section.title} section`}
+                        onSendToChat={() => onSendToChat(problem, `## ${section.title}\n\n${section.body}`)}
+                      />
+                    )}
+                  </div>
+                  <div className="text-sm text-gray-200"><Markdown text={section.body} /></div>
+                </article>
+              ))}
+            </section>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComplexTask;
@@ -1,6 +1,8 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { ChatMessage as Message } from '../types';
-import { generateGroundedText } from '../services/geminiService';
+import { modelProvider } from '../services/modelProvider';
+import { describeError, withRetry } from '../services/errors';
+import { recordUsage, toTokenUsage } from '../services/usage';
 import ChatMessage from './ChatMessage';
 import { SendIcon } from './icons/Icons';
 
@@ -59,35 +61,56 @@ const GroundingSearch: React.FC = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages, isLoading]);
 
-  const handleSend = async () => {
-    if (!input.trim() || isLoading) return;
-
-    const userMessage: Message = { id: `gs-user-${Date.now()}`, role: 'user', text: input };
+  const ask = async (query: string) => {
+    const userMessage: Message = { id: `gs-user-${Date.now()}`, role: 'user', text: query };
     setMessages(prev => [...prev, userMessage]);
-    setInput('');
     setIsLoading(true);
     setLocationError(null);
 
     try {
-      const response = await generateGroundedText(input, useMaps, location);
+      const response = await withRetry(() => modelProvider.generateGroundedText(query, useMaps, location));
       const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
       const sources = groundingChunks?.map((chunk: any) => ({
         uri: chunk.web?.uri || chunk.maps?.uri,
         title: chunk.web?.title || chunk.maps?.title
       })).filter((source: any) => source.uri);
 
-      const modelMessage: Message = { id: `gs-model-${Date.now()}`, role: 'model', text: response.text, sources };
+      const usage = toTokenUsage(response.usageMetadata);
+      recordUsage('search', usage);
+
+      const modelMessage: Message = { id: `gs-model-${Date.now()}`, role: 'model', text: response.text, sources, ...(usage ? { usage } : {}) };
       setMessages(prev => [...prev, modelMessage]);
 
     } catch (error) {
       console.error('Error generating grounded text:', error);
-      const errorMessage: Message = { id: `gs-error-${Date.now()}`, role: 'model', text: 'Sorry, I couldn\'t fetch a grounded response. Please try again.', isError: true };
+      const errorMessage: Message = {
+        id: `gs-error-${Date.now()}`,
+        parentId: userMessage.id,
+        role: 'model',
+        text: describeError(error, 'Sorry, I couldn\'t fetch a grounded response. Please try again.'),
+        isError: true,
+      };
       setMessages(prev => [...prev, errorMessage]);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleSend = () => {
+    if (!input.trim() || isLoading) return;
+    setInput('');
+    ask(input);
+  };
+
+  // Drops the failed question and its error, then asks it again.
+  const handleRetry = (errorMessageId: string) => {
+    const failed = messages.find(msg => msg.id === errorMessageId);
+    const question = messages.find(msg => msg.id === failed?.parentId);
+    if (!failed || !question || isLoading) return;
+    setMessages(prev => prev.filter(msg => msg.id !== failed.id && msg.id !== question.id));
+    ask(question.text);
+  };
+
   return (
     <div className="flex flex-col h-full bg-gray-800 text-gray-200">
         <div className="p-4 bg-gray-900 border-b border-gray-700 flex justify-between items-center">
@@ -116,6 +139,7 @@ const GroundingSearch: React.FC = () => {
             <ChatMessage 
               key={msg.id}
               message={msg}
+              onRegenerate={msg.isError && !isLoading ? handleRetry : undefined}
             />
           ))}
           {isLoading && <TypingIndicator />}
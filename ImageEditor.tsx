@@ -1,159 +1,450 @@
-import React, { useState, useCallback } from 'react';
-import { combineImages, fileToBase64 } from '../services/geminiService';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { fileToBase64 } from '../services/geminiService';
+import { preprocessImages } from '../services/imagePreprocess';
+import { FeatureMode } from '../types';
+import { modelProvider } from '../services/modelProvider';
+import { describeError, withRetry } from '../services/errors';
+import { InlineImage, parseDataUrl, toDataUrl } from '../services/chatHistory';
+import { dataUrlToBlob } from '../services/sessionStore';
+import { imageFileExtension, toFileName } from '../services/download';
+import { compositeThroughMask } from '../services/maskComposite';
+import {
+  addResult,
+  addUploads,
+  createProject,
+  deleteProject,
+  getBeforeVersion,
+  getCurrentVersion,
+  getSources,
+  loadProjects,
+  makeOnlySource,
+  removeSource,
+  saveProject,
+  selectVersion,
+  stepVersion,
+  StudioProject,
+  toBase64DataUrl,
+  StudioVersion,
+} from '../services/studioProjects';
 import Spinner from './Spinner';
-import { CloseIcon } from './icons/Icons';
+import MaskEditor from './MaskEditor';
+import CompareSlider from './CompareSlider';
+import BatchEditor from './BatchEditor';
+import { BilledFeatureNotice } from './ApiKeySelector';
+import { CloseIcon, DownloadIcon, PlusIcon, TrashIcon } from './icons/Icons';
 
-const ImageEditor: React.FC = () => {
+interface ImageEditorProps {
+  // Data URLs sent over from elsewhere in the app, e.g. the image generator's gallery.
+  incomingImages?: string[];
+  onIncomingImagesAdded?: () => void;
+}
+
+type CompareMode = 'slider' | 'side';
+// Projects build up one image step by step; batch mode applies one instruction to many images.
+type StudioMode = 'projects' | 'batch';
+
+const UNREADABLE_SOURCE_ERROR = "One of the source images can't be read. Remove it and upload it again.";
+
+// Projects saved before results were re-encoded may still hold non-base64 images.
+const toPayload = async (dataUrl: string) => parseDataUrl(await toBase64DataUrl(dataUrl));
+
+const versionLabel = (version: StudioVersion) => version.prompt || 'Uploaded image';
+
+const versionFileName = (project: StudioProject, version: StudioVersion) =>
+  `${toFileName(project.title, 'image')}-v${project.versions.indexOf(version) + 1}.${imageFileExtension(version.image)}`;
+
+const ImageEditor: React.FC<ImageEditorProps> = ({ incomingImages, onIncomingImagesAdded }) => {
   const [prompt, setPrompt] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const [sourceImages, setSourceImages] = useState<string[]>([]);
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
-  const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
+  const [projects, setProjects] = useState<StudioProject[]>([]);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  // Projects as last written to IndexedDB, so only changed ones are saved again.
+  const savedProjectsRef = useRef(new WeakSet<StudioProject>());
+  const handledIncomingRef = useRef<string[] | null>(null);
+  // Inpainting: the source being masked and the mask painted on it.
+  const [maskSourceId, setMaskSourceId] = useState<string | null>(null);
+  const [mask, setMask] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>('slider');
+  const [mode, setMode] = useState<StudioMode>('projects');
 
-  const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files) {
-      const newFiles = Array.from(e.target.files);
-      setUploadedFiles(prev => [...prev, ...newFiles]);
-      setGeneratedImage(null);
-      
-      newFiles.forEach(file => {
-          // FIX: Cast file to Blob to resolve TypeScript error where the `file` argument was inferred as `unknown`.
-          // `File` is a subtype of `Blob`, so this is a safe and correct cast.
-          setSourceImages(prev => [...prev, URL.createObjectURL(file as Blob)]);
+  const project = projects.find(p => p.id === projectId);
+  const sources = project ? getSources(project) : [];
+  const currentVersion = project ? getCurrentVersion(project) : undefined;
+  const beforeVersion = project && currentVersion ? getBeforeVersion(project, currentVersion) : undefined;
+  const currentIndex = project && currentVersion ? project.versions.indexOf(currentVersion) : -1;
+  const maskSource = sources.find(source => source.id === maskSourceId);
+
+  useEffect(() => {
+    let isCancelled = false;
+    loadProjects()
+      .then(saved => {
+        if (isCancelled) return;
+        saved.forEach(p => savedProjectsRef.current.add(p));
+        const initial = saved.length > 0 ? saved : [createProject()];
+        setProjects(initial);
+        setProjectId(initial[0].id);
+      })
+      .catch(err => {
+        console.error("Could not load Image Studio projects:", err);
+        if (isCancelled) return;
+        setError('Your earlier projects could not be loaded. New work may not be saved.');
+        const fresh = createProject();
+        setProjects([fresh]);
+        setProjectId(fresh.id);
       });
-      e.target.value = ''; // Allow selecting the same file again
-    }
+    return () => { isCancelled = true; };
   }, []);
-  
-  const handleRemoveImage = (indexToRemove: number) => {
-    setUploadedFiles(prev => prev.filter((_, index) => index !== indexToRemove));
-    setSourceImages(prev => prev.filter((_, index) => index !== indexToRemove));
+
+  // Empty projects aren't worth keeping until something is added to them.
+  useEffect(() => {
+    projects.forEach(p => {
+      if (p.versions.length === 0 || savedProjectsRef.current.has(p)) return;
+      savedProjectsRef.current.add(p);
+      saveProject(p).catch(err => {
+        console.error("Could not save Image Studio project:", err);
+        setError('This project could not be saved. Your browser may be out of storage space.');
+      });
+    });
+  }, [projects]);
+
+  const updateProject = (id: string, update: (p: StudioProject) => StudioProject) => {
+    setProjects(prev => prev.map(p => (p.id === id ? update(p) : p)));
+  };
+
+  // Uploads and images sent from the gallery are prepared the same way before joining a project.
+  const addImageFiles = async (id: string, files: File[]) => {
+    try {
+      const prepared = await preprocessImages(files);
+      const images = await Promise.all(prepared.files.map(async file => toDataUrl({ base64: await fileToBase64(file), mimeType: file.type })));
+      updateProject(id, p => addUploads(p, images));
+      setError(prepared.errors[0] || null);
+    } catch (err) {
+      console.error(err);
+      setError('Could not read the image. Please try again.');
+    }
+  };
+
+  const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files || !projectId) return;
+    const files = Array.from(e.target.files);
+    e.target.value = ''; // Allow selecting the same file again
+    addImageFiles(projectId, files);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId]);
+
+  // Waits for the projects to load. The ref stops StrictMode's second run adding them twice.
+  useEffect(() => {
+    if (!incomingImages || incomingImages.length === 0 || !projectId) return;
+    if (handledIncomingRef.current === incomingImages) return;
+    handledIncomingRef.current = incomingImages;
+    const files = incomingImages.flatMap((image, index) => {
+      const blob = dataUrlToBlob(image);
+      return blob ? [new File([blob], `gallery-image-${index + 1}`, { type: blob.type })] : [];
+    });
+    addImageFiles(projectId, files);
+    setMode('projects');
+    onIncomingImagesAdded?.();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [incomingImages, projectId]);
+
+  const handleStopMasking = () => {
+    setMaskSourceId(null);
+    setMask(null);
+  };
+
+  const handleRemoveSource = (id: string) => {
+    if (!projectId) return;
+    updateProject(projectId, p => removeSource(p, id));
+    if (maskSourceId === id) handleStopMasking();
+  };
+
+  const handleNewProject = () => {
+    if (project && project.versions.length === 0) return;
+    const fresh = createProject();
+    setProjects(prev => [fresh, ...prev]);
+    setProjectId(fresh.id);
+    handleStopMasking();
+    setError(null);
+  };
+
+  const handleSelectProject = (id: string) => {
+    setProjectId(id);
+    handleStopMasking();
+    setError(null);
   };
 
+  const handleDeleteProject = () => {
+    if (!project || !window.confirm(`Delete "${project.title}" and all of its versions?`)) return;
+    deleteProject(project.id).catch(err => console.error("Could not delete Image Studio project:", err));
+    const remaining = projects.filter(p => p.id !== project.id);
+    const next = remaining.length > 0 ? remaining : [createProject()];
+    setProjects(next);
+    setProjectId(next[0].id);
+    handleStopMasking();
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!prompt.trim() || uploadedFiles.length === 0) return;
+    if (!prompt.trim() || !projectId || sources.length === 0) return;
 
+    // The project may change while the request runs; the result still belongs to this one.
+    const targetId = projectId;
+    const instruction = prompt.trim();
     setIsLoading(true);
     setError(null);
-    setGeneratedImage(null);
 
     try {
-      const imagePayloads = await Promise.all(
-          uploadedFiles.map(file => 
-              fileToBase64(file).then(base64 => ({ base64, mimeType: file.type }))
-          )
-      );
-      
-      const image = await combineImages(prompt, imagePayloads);
-      setGeneratedImage(image);
-    } catch (err: any) {
-      let errorMessage = 'Failed to generate image. Please try again.';
-      const errorString = err.toString();
-      if (errorString.includes('RESOURCE_EXHAUSTED') || errorString.includes('quota')) {
-          errorMessage = "It looks like the free tier quota for image generation has been exceeded. Please check your API key's plan and billing details.";
-      } else if (errorString.includes('billing')) {
-          errorMessage = "This feature may require a billed account. Please check your API key's plan and billing details.";
+      if (maskSource && mask) {
+        const imagePayload = await toPayload(maskSource.image);
+        const maskPayload = parseDataUrl(mask);
+        if (!imagePayload || !maskPayload) {
+          setError(UNREADABLE_SOURCE_ERROR);
+          return;
+        }
+        const result = await withRetry(() => modelProvider.inpaintImage(instruction, imagePayload, maskPayload));
+        const image = await compositeThroughMask(maskSource.image, result, mask);
+        updateProject(targetId, p => addResult(p, { image, prompt: instruction, sourceIds: [maskSource.id], isMasked: true }));
+        return;
+      }
+
+      const payloads = await Promise.all(sources.map(source => toPayload(source.image)));
+      const imagePayloads = payloads.filter((payload): payload is InlineImage => !!payload);
+      if (imagePayloads.length < payloads.length) {
+        setError(UNREADABLE_SOURCE_ERROR);
+        return;
       }
-      setError(errorMessage);
+      const result = await withRetry(() => modelProvider.combineImages(instruction, imagePayloads));
+      const image = await toBase64DataUrl(result);
+      updateProject(targetId, p => addResult(p, { image, prompt: instruction, sourceIds: sources.map(source => source.id) }));
+    } catch (err) {
+      setError(describeError(err, 'Failed to generate image. Please try again.'));
       console.error(err);
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Continues from a version: it becomes the only source and the instruction box is cleared
+  // for the next step.
+  const handleUseAsSource = (version: StudioVersion) => {
+    if (!projectId) return;
+    updateProject(projectId, p => makeOnlySource(p, version.id));
+    handleStopMasking();
+    setPrompt('');
+  };
+
   return (
     <div className="flex flex-col h-full bg-gray-800 p-6 overflow-y-auto">
       <div className="p-4 bg-gray-900 border-b border-gray-700 mb-6 rounded-t-lg">
         <h2 className="text-xl font-bold">Image Studio</h2>
-        <p className="text-sm text-gray-400">Upload one or more images and describe how you want to combine or edit them.</p>
+        <p className="text-sm text-gray-400">Upload one or more images and describe how you want to combine or edit them, or paint over one to change just that area. Use a result as the new source to keep refining it, or switch to batch mode to apply one instruction to many images.</p>
       </div>
+      <BilledFeatureNotice feature={FeatureMode.IMAGE_EDIT} />
 
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 flex-1">
-        {/* Left Side: Controls & Upload */}
-        <div className="flex flex-col">
-          <form onSubmit={handleSubmit} className="mb-6">
-            <div className="mb-4">
-              <label htmlFor="image-upload" className="block text-gray-300 text-sm font-bold mb-2">
-                Upload Image(s)
-              </label>
-              <input
-                type="file"
-                id="image-upload"
-                accept="image/*"
-                multiple
-                onChange={handleFileChange}
-                className="w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600 cursor-pointer"
-                disabled={isLoading}
-              />
-            </div>
-            <div className="mb-4">
-              <label htmlFor="edit-prompt" className="block text-gray-300 text-sm font-bold mb-2">
-                Instruction
-              </label>
-              <textarea
-                id="edit-prompt"
-                value={prompt}
-                onChange={(e) => setPrompt(e.target.value)}
-                placeholder="e.g., Combine these into a collage, place the cat in the car"
-                className="w-full h-24 p-2 border border-gray-600 rounded-lg bg-gray-700 text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
-                disabled={isLoading || sourceImages.length === 0}
-              />
-            </div>
-            <button
-              type="submit"
-              disabled={isLoading || !prompt.trim() || sourceImages.length === 0}
-              className="w-full px-4 py-3 bg-blue-600 text-white font-bold rounded-lg disabled:bg-gray-600 disabled:cursor-not-allowed hover:bg-blue-700 transition-colors"
-            >
-              {isLoading ? 'Generating...' : 'Generate Image'}
-            </button>
-          </form>
-          {error && <p className="text-red-400 text-center">{error}</p>}
+      <div className="flex self-start rounded-md overflow-hidden border border-gray-600 text-sm mb-6" role="group" aria-label="Studio mode">
+        <button onClick={() => setMode('projects')} aria-pressed={mode === 'projects'} className={`px-3 py-1.5 ${mode === 'projects' ? 'bg-gray-600 text-white' : 'text-gray-400 hover:bg-gray-700'}`}>Projects</button>
+        <button onClick={() => setMode('batch')} aria-pressed={mode === 'batch'} className={`px-3 py-1.5 ${mode === 'batch' ? 'bg-gray-600 text-white' : 'text-gray-400 hover:bg-gray-700'}`}>Batch</button>
+      </div>
+
+      {/* Both modes stay mounted, so a running batch carries on while a project is open. */}
+      <div className={mode === 'batch' ? 'flex flex-col flex-1' : 'hidden'}>
+        <BatchEditor />
+      </div>
+
+      <div className={mode === 'projects' ? 'flex flex-col flex-1' : 'hidden'}>
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          <label htmlFor="studio-project" className="text-sm font-bold text-gray-300">Project</label>
+          <select
+            id="studio-project"
+            value={projectId || ''}
+            onChange={e => handleSelectProject(e.target.value)}
+            disabled={isLoading || !project}
+            className="flex-1 min-w-0 max-w-xs bg-gray-700 border border-gray-600 rounded-md p-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            {projects.map(p => (
+              <option key={p.id} value={p.id} className="bg-gray-800">
+                {p.title} ({p.versions.length} {p.versions.length === 1 ? 'version' : 'versions'})
+              </option>
+            ))}
+          </select>
+          <button onClick={handleNewProject} disabled={isLoading} className="flex items-center gap-1 px-2 py-2 text-xs rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:text-gray-500" title="New project">
+            <PlusIcon /> New
+          </button>
+          <button onClick={handleDeleteProject} disabled={isLoading || !project || project.versions.length === 0} className="p-2 rounded-md text-gray-400 hover:text-red-400 hover:bg-gray-700 disabled:text-gray-600" aria-label="Delete project" title="Delete project">
+            <TrashIcon />
+          </button>
         </div>
 
-        {/* Right Side: Image Display */}
-        <div className="flex flex-col gap-4 min-h-[400px]">
-            <div className="bg-gray-900 rounded-lg p-3 flex flex-col border border-gray-700 flex-1 min-h-0">
-                <h3 className="text-sm font-semibold mb-2 text-gray-400 flex-shrink-0">Source Image(s)</h3>
-                {sourceImages.length > 0 ? (
-                    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2 overflow-y-auto pr-1">
-                        {sourceImages.map((src, index) => (
-                            <div key={`${src.substring(0, 20)}-${index}`} className="relative group aspect-square">
-                                <img src={src} alt={`Source ${index + 1}`} className="w-full h-full object-cover rounded-md" />
-                                <button 
-                                    onClick={() => handleRemoveImage(index)}
-                                    className="absolute top-1 right-1 bg-black/60 text-white rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity focus:opacity-100"
-                                    aria-label="Remove image"
-                                    disabled={isLoading}
-                                >
-                                    <CloseIcon className="w-4 h-4" />
-                                </button>
-                            </div>
-                        ))}
-                    </div>
-                ) : (
-                    <div className="w-full h-full flex items-center justify-center text-gray-500 text-center p-4">Upload one or more images to start</div>
-                )}
-            </div>
-            <div className="bg-gray-900 rounded-lg p-3 flex flex-col items-center justify-center border border-gray-700 h-80 flex-shrink-0">
-                <h3 className="text-sm font-semibold mb-2 text-gray-400 self-start">Generated Image</h3>
-                 <div className="flex-1 flex items-center justify-center w-full h-full">
-                    {isLoading ? (
-                        <Spinner />
-                    ) : generatedImage ? (
-                        <img src={generatedImage} alt="Generated" className="max-w-full max-h-full object-contain rounded-md" />
-                    ) : (
-                        <div className="text-gray-500 text-center p-4">Your generated image will appear here</div>
-                    )}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 flex-1">
+          {/* Left Side: Controls & Upload */}
+          <div className="flex flex-col">
+            <form onSubmit={handleSubmit} className="mb-6">
+              <div className="mb-4">
+                <label htmlFor="image-upload" className="block text-gray-300 text-sm font-bold mb-2">
+                  Upload Image(s)
+                </label>
+                <input
+                  type="file"
+                  id="image-upload"
+                  accept="image/*"
+                  multiple
+                  onChange={handleFileChange}
+                  className="w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600 cursor-pointer"
+                  disabled={isLoading || !project}
+                />
+              </div>
+              <div className="mb-4">
+                <label htmlFor="edit-prompt" className="block text-gray-300 text-sm font-bold mb-2">
+                  Instruction
+                </label>
+                <textarea
+                  id="edit-prompt"
+                  value={prompt}
+                  onChange={(e) => setPrompt(e.target.value)}
+                  placeholder={maskSource ? 'e.g., Replace with a vase of sunflowers' : 'e.g., Combine these into a collage, now make it night'}
+                  className="w-full h-24 p-2 border border-gray-600 rounded-lg bg-gray-700 text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  disabled={isLoading || sources.length === 0}
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isLoading || !prompt.trim() || sources.length === 0}
+                className="w-full px-4 py-3 bg-blue-600 text-white font-bold rounded-lg disabled:bg-gray-600 disabled:cursor-not-allowed hover:bg-blue-700 transition-colors"
+              >
+                {isLoading ? 'Generating...' : maskSource && mask ? 'Edit Painted Area' : 'Generate Image'}
+              </button>
+            </form>
+            {error && <p className="text-red-400 text-center mb-4">{error}</p>}
+            {maskSource && (
+              <div className="bg-gray-900 rounded-lg p-3 border border-gray-700">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-sm font-semibold text-gray-400">Area to change</h3>
+                  <button type="button" onClick={handleStopMasking} disabled={isLoading} className="text-xs text-gray-400 hover:text-white">
+                    Edit whole images instead
+                  </button>
                 </div>
-            </div>
+                <MaskEditor src={maskSource.image} disabled={isLoading} onMaskChange={setMask} />
+              </div>
+            )}
+          </div>
+
+          {/* Right Side: Image Display */}
+          <div className="flex flex-col gap-4 min-h-[400px]">
+              <div className="bg-gray-900 rounded-lg p-3 flex flex-col border border-gray-700 flex-1 min-h-0">
+                  <h3 className="text-sm font-semibold mb-2 text-gray-400 flex-shrink-0">Source Image(s)</h3>
+                  {sources.length > 0 ? (
+                      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2 overflow-y-auto pr-1">
+                          {sources.map((source, index) => (
+                              <div key={source.id} className="relative group aspect-square">
+                                  <img src={source.image} alt={`Source ${index + 1}`} className={`w-full h-full object-cover rounded-md ${maskSourceId === source.id ? 'ring-2 ring-blue-500' : ''}`} />
+                                  <button
+                                      onClick={() => setMaskSourceId(source.id)}
+                                      className="absolute bottom-1 left-1 px-1.5 py-0.5 text-xs bg-black/60 text-white rounded opacity-0 group-hover:opacity-100 transition-opacity focus:opacity-100"
+                                      disabled={isLoading || maskSourceId === source.id}
+                                  >
+                                      {maskSourceId === source.id ? 'Masking' : 'Paint area'}
+                                  </button>
+                                  <button
+                                      onClick={() => handleRemoveSource(source.id)}
+                                      className="absolute top-1 right-1 bg-black/60 text-white rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity focus:opacity-100"
+                                      aria-label="Remove image"
+                                      disabled={isLoading}
+                                  >
+                                      <CloseIcon className="w-4 h-4" />
+                                  </button>
+                              </div>
+                          ))}
+                      </div>
+                  ) : (
+                      <div className="w-full h-full flex items-center justify-center text-gray-500 text-center p-4">Upload one or more images to start</div>
+                  )}
+              </div>
+              <div className="bg-gray-900 rounded-lg p-3 flex flex-col items-center justify-center border border-gray-700 h-80 flex-shrink-0">
+                  <div className="flex items-center justify-between gap-2 w-full mb-2">
+                      <h3 className="text-sm font-semibold text-gray-400 truncate" title={currentVersion ? versionLabel(currentVersion) : undefined}>
+                          {currentVersion ? `Version ${currentIndex + 1}: ${versionLabel(currentVersion)}` : 'Generated Image'}
+                      </h3>
+                      {currentVersion && beforeVersion && !isLoading && (
+                          <div className="flex flex-shrink-0 rounded-md overflow-hidden border border-gray-600 text-xs" role="group" aria-label="Compare with the source">
+                              <button onClick={() => setCompareMode('slider')} aria-pressed={compareMode === 'slider'} className={`px-2 py-0.5 ${compareMode === 'slider' ? 'bg-gray-600 text-white' : 'text-gray-400 hover:bg-gray-700'}`}>Slider</button>
+                              <button onClick={() => setCompareMode('side')} aria-pressed={compareMode === 'side'} className={`px-2 py-0.5 ${compareMode === 'side' ? 'bg-gray-600 text-white' : 'text-gray-400 hover:bg-gray-700'}`}>Side by side</button>
+                          </div>
+                      )}
+                  </div>
+                   <div className="flex-1 flex items-center justify-center w-full h-full min-h-0">
+                      {isLoading ? (
+                          <Spinner />
+                      ) : currentVersion && beforeVersion && compareMode === 'slider' ? (
+                          <CompareSlider before={beforeVersion.image} after={currentVersion.image} />
+                      ) : currentVersion && beforeVersion ? (
+                          <div className="grid grid-cols-2 gap-2 w-full h-full">
+                              <figure className="flex flex-col items-center min-h-0">
+                                  <img src={beforeVersion.image} alt="Original" className="max-w-full flex-1 min-h-0 object-contain rounded-md" />
+                                  <figcaption className="text-xs text-gray-400 mt-1">Original</figcaption>
+                              </figure>
+                              <figure className="flex flex-col items-center min-h-0">
+                                  <img src={currentVersion.image} alt="Edited" className="max-w-full flex-1 min-h-0 object-contain rounded-md" />
+                                  <figcaption className="text-xs text-gray-400 mt-1">Edited</figcaption>
+                              </figure>
+                          </div>
+                      ) : currentVersion ? (
+                          <img src={currentVersion.image} alt={versionLabel(currentVersion)} className="max-w-full max-h-full object-contain rounded-md" />
+                      ) : (
+                          <div className="text-gray-500 text-center p-4">Your generated image will appear here</div>
+                      )}
+                  </div>
+              </div>
+              {project && currentVersion && (
+                  <div className="bg-gray-900 rounded-lg p-3 border border-gray-700">
+                      <div className="flex flex-wrap items-center gap-2 mb-3">
+                          <h3 className="text-sm font-semibold text-gray-400 mr-auto">Versions</h3>
+                          <button onClick={() => updateProject(project.id, p => stepVersion(p, -1))} disabled={isLoading || currentIndex <= 0} className="px-2 py-1 text-xs rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:text-gray-500 disabled:cursor-not-allowed">
+                              Undo
+                          </button>
+                          <button onClick={() => updateProject(project.id, p => stepVersion(p, 1))} disabled={isLoading || currentIndex >= project.versions.length - 1} className="px-2 py-1 text-xs rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:text-gray-500 disabled:cursor-not-allowed">
+                              Redo
+                          </button>
+                          <button onClick={() => handleUseAsSource(currentVersion)} disabled={isLoading || (sources.length === 1 && sources[0].id === currentVersion.id)} className="px-2 py-1 text-xs rounded-md bg-blue-600 hover:bg-blue-700 text-white disabled:bg-gray-600 disabled:cursor-not-allowed">
+                              Use as source
+                          </button>
+                          <a href={currentVersion.image} download={versionFileName(project, currentVersion)} className="p-1.5 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200" aria-label="Download this version" title="Download">
+                              <DownloadIcon />
+                          </a>
+                      </div>
+                      <ol className="flex gap-2 overflow-x-auto pb-1">
+                          {project.versions.map((version, index) => (
+                              <li key={version.id} className="flex-shrink-0 relative group">
+                                  <button
+                                      onClick={() => updateProject(project.id, p => selectVersion(p, version.id))}
+                                      disabled={isLoading}
+                                      className={`block w-16 h-16 rounded-md overflow-hidden ${version.id === currentVersion.id ? 'ring-2 ring-blue-500' : 'opacity-70 hover:opacity-100'}`}
+                                      aria-label={`Show version ${index + 1}: ${versionLabel(version)}`}
+                                      aria-current={version.id === currentVersion.id}
+                                      title={`${index + 1}. ${versionLabel(version)}${version.isMasked ? ' (painted area)' : ''}`}
+                                  >
+                                      <img src={version.image} alt="" className="w-full h-full object-cover" />
+                                  </button>
+                                  <a
+                                      href={version.image}
+                                      download={versionFileName(project, version)}
+                                      className="absolute bottom-0.5 right-0.5 bg-black/60 text-white rounded p-0.5 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                                      aria-label={`Download version ${index + 1}`}
+                                      title="Download"
+                                  >
+                                      <DownloadIcon />
+                                  </a>
+                              </li>
+                          ))}
+                      </ol>
+                  </div>
+              )}
+          </div>
         </div>
       </div>
     </div>
   );
 };
 
-export default ImageEditor;
\ No newline at end of file
+export default ImageEditor;
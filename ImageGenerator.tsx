@@ -0,0 +1,305 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { FeatureMode } from '../types';
+import { modelProvider } from '../services/modelProvider';
+import { describeError, withRetry } from '../services/errors';
+import {
+  ASPECT_RATIOS,
+  buildImagePrompt,
+  DEFAULT_SETTINGS,
+  deleteGeneration,
+  GenerationSettings,
+  getStylePreset,
+  ImageGeneration,
+  loadGallery,
+  MAX_IMAGES_PER_GENERATION,
+  saveGeneration,
+  STYLE_PRESETS,
+} from '../services/imageGallery';
+import { imageFileExtension, toFileName } from '../services/download';
+import Spinner from './Spinner';
+import { BilledFeatureNotice } from './ApiKeySelector';
+import { DownloadIcon, EditIcon, RegenerateIcon, TrashIcon } from './icons/Icons';
+
+interface ImageGeneratorProps {
+  onSendToStudio: (images: string[]) => void;
+}
+
+interface GeneratedImageProps {
+  src: string;
+  alt: string;
+  fileName: string;
+  onSendToStudio: () => void;
+}
+
+const GeneratedImage: React.FC<GeneratedImageProps> = ({ src, alt, fileName, onSendToStudio }) => (
+  <div className="relative group">
+    <img src={src} alt={alt} className="w-full rounded-md object-contain bg-gray-800" />
+    <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+      <button onClick={onSendToStudio} className="bg-black/60 hover:bg-black/80 text-white rounded-md p-1.5" aria-label="Send to Image Studio" title="Send to Image Studio">
+        <EditIcon />
+      </button>
+      <a href={src} download={fileName} className="bg-black/60 hover:bg-black/80 text-white rounded-md p-1.5" aria-label="Download image" title="Download">
+        <DownloadIcon />
+      </a>
+    </div>
+  </div>
+);
+
+const ParameterChips: React.FC<{ generation: ImageGeneration }> = ({ generation }) => (
+  <div className="flex flex-wrap gap-1 text-xs text-gray-300">
+    <span className="bg-gray-700 rounded px-1.5 py-0.5">{getStylePreset(generation.styleId).label}</span>
+    <span className="bg-gray-700 rounded px-1.5 py-0.5">{generation.aspectRatio}</span>
+    <span className="bg-gray-700 rounded px-1.5 py-0.5">{generation.images.length} {generation.images.length === 1 ? 'image' : 'images'}</span>
+    {generation.negativePrompt && (
+      <span className="bg-gray-700 rounded px-1.5 py-0.5" title="Negative prompt">Without: {generation.negativePrompt}</span>
+    )}
+  </div>
+);
+
+const ImageGenerator: React.FC<ImageGeneratorProps> = ({ onSendToStudio }) => {
+  const [settings, setSettings] = useState<GenerationSettings>(DEFAULT_SETTINGS);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [gallery, setGallery] = useState<ImageGeneration[]>([]);
+  const [latestId, setLatestId] = useState<string | null>(null);
+  const promptRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    loadGallery()
+      .then(setGallery)
+      .catch(err => {
+        console.error("Could not load the image gallery:", err);
+        setError('Could not load your gallery of past images.');
+      });
+  }, []);
+
+  const update = (changes: Partial<GenerationSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!settings.prompt.trim() || isLoading) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const images = await withRetry(() => modelProvider.generateImages({
+        prompt: buildImagePrompt(settings),
+        negativePrompt: settings.negativePrompt.trim() || undefined,
+        aspectRatio: settings.aspectRatio,
+        numberOfImages: settings.numberOfImages,
+      }));
+      const generation: ImageGeneration = {
+        ...settings,
+        prompt: settings.prompt.trim(),
+        negativePrompt: settings.negativePrompt.trim(),
+        id: `generation-${Date.now()}`,
+        createdAt: Date.now(),
+        images,
+      };
+      setGallery(prev => [generation, ...prev]);
+      setLatestId(generation.id);
+      saveGeneration(generation).catch(err => {
+        console.error("Could not save the generation:", err);
+        setError('The images were generated but could not be saved to your gallery.');
+      });
+    } catch (err) {
+      console.error(err);
+      setError(describeError(err, 'Failed to generate images. Please try again.'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Loads a past generation's settings into the form so they can be adjusted and run again.
+  const handleTweak = (generation: ImageGeneration) => {
+    const { prompt, negativePrompt, styleId, aspectRatio, numberOfImages } = generation;
+    setSettings({ prompt, negativePrompt, styleId, aspectRatio, numberOfImages });
+    promptRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    promptRef.current?.focus();
+  };
+
+  const handleDelete = (id: string) => {
+    setGallery(prev => prev.filter(generation => generation.id !== id));
+    if (latestId === id) setLatestId(null);
+    deleteGeneration(id).catch(err => {
+      console.error("Could not delete the generation:", err);
+      setError('Could not remove the images from your gallery.');
+    });
+  };
+
+  const latest = gallery.find(generation => generation.id === latestId);
+  const imageFileName = (generation: ImageGeneration, index: number, src: string) =>
+    `${toFileName(generation.prompt, 'image')}-${index + 1}.${imageFileExtension(src)}`;
+
+  return (
+    <div className="flex flex-col h-full bg-gray-800 p-6 overflow-y-auto">
+      <div className="p-4 bg-gray-900 border-b border-gray-700 mb-6 rounded-t-lg">
+        <h2 className="text-xl font-bold">Image Generator</h2>
+        <p className="text-sm text-gray-400">Describe an image, pick a style and shape, and keep the results in your gallery.</p>
+      </div>
+      <BilledFeatureNotice feature={FeatureMode.IMAGE_GENERATE} />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Left Side: Parameters */}
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          <div>
+            <label htmlFor="generate-prompt" className="block text-gray-300 text-sm font-bold mb-2">Prompt</label>
+            <textarea
+              id="generate-prompt"
+              ref={promptRef}
+              value={settings.prompt}
+              onChange={(e) => update({ prompt: e.target.value })}
+              placeholder="e.g., A lighthouse on a cliff at sunset, waves crashing below"
+              className="w-full h-24 p-2 border border-gray-600 rounded-lg bg-gray-700 text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+              disabled={isLoading}
+            />
+          </div>
+          <div>
+            <label htmlFor="generate-negative" className="block text-gray-300 text-sm font-bold mb-2">Leave out</label>
+            <input
+              id="generate-negative"
+              type="text"
+              value={settings.negativePrompt}
+              onChange={(e) => update({ negativePrompt: e.target.value })}
+              placeholder="e.g., people, text, watermarks"
+              className="w-full p-2 border border-gray-600 rounded-lg bg-gray-700 text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+              disabled={isLoading}
+            />
+          </div>
+          <div>
+            <label htmlFor="generate-style" className="block text-gray-300 text-sm font-bold mb-2">Style</label>
+            <select
+              id="generate-style"
+              value={settings.styleId}
+              onChange={(e) => update({ styleId: e.target.value })}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+              disabled={isLoading}
+            >
+              {STYLE_PRESETS.map(preset => <option key={preset.id} value={preset.id} className="bg-gray-800">{preset.label}</option>)}
+            </select>
+          </div>
+          <fieldset disabled={isLoading}>
+            <legend className="block text-gray-300 text-sm font-bold mb-2">Aspect ratio</legend>
+            <div className="flex flex-wrap gap-2">
+              {ASPECT_RATIOS.map(ratio => (
+                <button
+                  key={ratio}
+                  type="button"
+                  onClick={() => update({ aspectRatio: ratio })}
+                  aria-pressed={settings.aspectRatio === ratio}
+                  className={`px-3 py-1.5 text-sm rounded-md transition-colors ${settings.aspectRatio === ratio ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                >
+                  {ratio}
+                </button>
+              ))}
+            </div>
+          </fieldset>
+          <fieldset disabled={isLoading}>
+            <legend className="block text-gray-300 text-sm font-bold mb-2">Number of images</legend>
+            <div className="flex gap-2">
+              {Array.from({ length: MAX_IMAGES_PER_GENERATION }, (_, index) => index + 1).map(count => (
+                <button
+                  key={count}
+                  type="button"
+                  onClick={() => update({ numberOfImages: count })}
+                  aria-pressed={settings.numberOfImages === count}
+                  className={`w-10 py-1.5 text-sm rounded-md transition-colors ${settings.numberOfImages === count ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                >
+                  {count}
+                </button>
+              ))}
+            </div>
+          </fieldset>
+          <button
+            type="submit"
+            disabled={isLoading || !settings.prompt.trim()}
+            className="w-full px-4 py-3 bg-blue-600 text-white font-bold rounded-lg disabled:bg-gray-600 disabled:cursor-not-allowed hover:bg-blue-700 transition-colors"
+          >
+            {isLoading ? 'Generating...' : settings.numberOfImages === 1 ? 'Generate Image' : `Generate ${settings.numberOfImages} Images`}
+          </button>
+          {error && <p className="text-red-400 text-center">{error}</p>}
+        </form>
+
+        {/* Right Side: Latest Result */}
+        <div className="bg-gray-900 rounded-lg p-3 flex flex-col border border-gray-700 min-h-[320px]">
+          <h3 className="text-sm font-semibold mb-2 text-gray-400">Result</h3>
+          <div className="flex-1 flex items-center justify-center">
+            {isLoading ? (
+              <Spinner />
+            ) : latest ? (
+              <div className={`grid gap-2 w-full ${latest.images.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                {latest.images.map((src, index) => (
+                  <GeneratedImage
+                    key={index}
+                    src={src}
+                    alt={`${latest.prompt} (${index + 1})`}
+                    fileName={imageFileName(latest, index, src)}
+                    onSendToStudio={() => onSendToStudio([src])}
+                  />
+                ))}
+              </div>
+            ) : (
+              <div className="text-gray-500 text-center p-4">Your generated images will appear here</div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <section className="mt-8">
+        <h3 className="text-lg font-semibold mb-3">Gallery</h3>
+        {gallery.length === 0 ? (
+          <p className="text-sm text-gray-500">Everything you generate is kept here, with the settings used to make it.</p>
+        ) : (
+          <div className="space-y-4">
+            {gallery.map(generation => (
+              <article key={generation.id} className="bg-gray-900 rounded-lg p-3 border border-gray-700">
+                <div className="flex items-start justify-between gap-3 mb-2">
+                  <div className="min-w-0 space-y-1">
+                    <p className="text-sm text-gray-200 break-words">{generation.prompt}</p>
+                    <ParameterChips generation={generation} />
+                    <p className="text-xs text-gray-500">{new Date(generation.createdAt).toLocaleString()}</p>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => handleTweak(generation)}
+                      className="flex items-center gap-1 px-2 py-1 text-xs rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200"
+                      title="Load these settings to change and run again"
+                    >
+                      <RegenerateIcon /> Re-run with tweaks
+                    </button>
+                    <button
+                      onClick={() => onSendToStudio(generation.images)}
+                      className="px-2 py-1 text-xs rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200"
+                    >
+                      Send to Image Studio
+                    </button>
+                    <button
+                      onClick={() => handleDelete(generation.id)}
+                      className="p-1 text-gray-400 hover:text-red-400 rounded-md"
+                      aria-label="Delete from gallery"
+                    >
+                      <TrashIcon />
+                    </button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  {generation.images.map((src, index) => (
+                    <GeneratedImage
+                      key={index}
+                      src={src}
+                      alt={`${generation.prompt} (${index + 1})`}
+                      fileName={imageFileName(generation, index, src)}
+                      onSendToStudio={() => onSendToStudio([src])}
+                    />
+                  ))}
+                </div>
+              </article>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ImageGenerator;
@@ -0,0 +1,195 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { LiveVoice } from './App';
+import { modelProvider, LiveSession } from '../services/modelProvider';
+import { createPcmPlayer, PcmPlayer, startMicrophone } from '../services/liveAudio';
+import { MicIcon, StopIcon } from './icons/Icons';
+
+type LiveStatus = 'idle' | 'connecting' | 'listening' | 'speaking';
+
+// Reports a transcript as it grows. The same ID is reported again with the longer text, and
+// once more with `isFinal` when its turn ends.
+export type LiveTranscriptHandler = (id: string, role: 'user' | 'model', text: string, isFinal: boolean) => void;
+
+interface LiveConversationProps {
+  voice: LiveVoice;
+  chatTitle?: string;
+  onTranscript: LiveTranscriptHandler;
+}
+
+interface TurnEntry {
+  id: string;
+  text: string;
+}
+
+// One exchange: what the user said and what the model said back.
+interface Turn {
+  user?: TurnEntry;
+  model?: TurnEntry;
+  wasInterrupted?: boolean;
+}
+
+const STATUS_TEXT: Record<LiveStatus, string> = {
+  idle: 'Press the microphone to start talking. You can interrupt the reply at any time.',
+  connecting: 'Connecting...',
+  listening: 'Listening...',
+  speaking: 'Speaking... talk to interrupt.',
+};
+
+const LiveConversation: React.FC<LiveConversationProps> = ({ voice, chatTitle, onTranscript }) => {
+  const [status, setStatus] = useState<LiveStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [level, setLevel] = useState(0);
+  const [captions, setCaptions] = useState<Turn>({});
+
+  const sessionRef = useRef<LiveSession | null>(null);
+  const playerRef = useRef<PcmPlayer | null>(null);
+  const stopMicrophoneRef = useRef<(() => void) | null>(null);
+  const turnRef = useRef<Turn>({});
+  // Bumped on every start and stop so callbacks from an old connection are ignored.
+  const connectionRef = useRef(0);
+  const onTranscriptRef = useRef(onTranscript);
+  onTranscriptRef.current = onTranscript;
+
+  const finishTurn = (wasInterrupted = false) => {
+    const { user, model } = turnRef.current;
+    if (user) onTranscriptRef.current(user.id, 'user', user.text.trim(), true);
+    if (model) onTranscriptRef.current(model.id, 'model', model.text.trim(), true);
+    if (user || model) setCaptions({ user, model, wasInterrupted });
+    turnRef.current = {};
+  };
+
+  const appendTranscript = (role: 'user' | 'model', text: string) => {
+    // Speech that comes after the reply has started belongs to the next exchange.
+    if (role === 'user' && turnRef.current.model) finishTurn();
+    const entry = turnRef.current[role];
+    const nextText = (entry?.text || '') + text;
+    if (!nextText.trim()) return;
+
+    const next = { id: entry?.id || `live-${role}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`, text: nextText };
+    turnRef.current = { ...turnRef.current, [role]: next };
+    setCaptions(turnRef.current);
+    onTranscriptRef.current(next.id, role, nextText.trim(), false);
+  };
+
+  const stop = () => {
+    connectionRef.current++;
+    stopMicrophoneRef.current?.();
+    sessionRef.current?.close();
+    playerRef.current?.close();
+    stopMicrophoneRef.current = null;
+    sessionRef.current = null;
+    playerRef.current = null;
+    finishTurn();
+    setStatus('idle');
+    setLevel(0);
+  };
+
+  const start = async () => {
+    const connection = ++connectionRef.current;
+    const isCurrent = () => connection === connectionRef.current;
+    setError(null);
+    setStatus('connecting');
+    setCaptions({});
+
+    const player = createPcmPlayer(() => {
+      if (isCurrent()) setStatus(current => (current === 'speaking' ? 'listening' : current));
+    });
+    playerRef.current = player;
+
+    try {
+      const session = await modelProvider.connectLive(voice, {
+        onAudio: (data) => {
+          if (!isCurrent()) return;
+          player.play(data);
+          setStatus('speaking');
+        },
+        onInputTranscript: (text) => isCurrent() && appendTranscript('user', text),
+        onOutputTranscript: (text) => isCurrent() && appendTranscript('model', text),
+        onInterrupted: () => {
+          if (!isCurrent()) return;
+          player.stop();
+          finishTurn(true);
+        },
+        onTurnComplete: () => isCurrent() && finishTurn(),
+        onError: (sessionError) => {
+          if (!isCurrent()) return;
+          console.error("Live session error:", sessionError);
+          setError(sessionError.message);
+          stop();
+        },
+        onClose: () => isCurrent() && stop(),
+      });
+      if (!isCurrent()) {
+        session.close();
+        return;
+      }
+      sessionRef.current = session;
+
+      const stopMicrophone = await startMicrophone((data, chunkLevel) => {
+        session.sendAudio(data);
+        setLevel(chunkLevel);
+      });
+      if (!isCurrent()) {
+        stopMicrophone();
+        return;
+      }
+      stopMicrophoneRef.current = stopMicrophone;
+      setStatus('listening');
+    } catch (startError) {
+      if (!isCurrent()) return;
+      console.error("Could not start live conversation:", startError);
+      setError(startError instanceof DOMException && startError.name === 'NotAllowedError'
+        ? 'Microphone access was denied. Allow it in your browser settings to talk live.'
+        : startError instanceof Error ? startError.message : 'Could not start the live conversation.');
+      stop();
+    }
+  };
+
+  // Hang up when leaving the page; whatever was said so far is still saved.
+  useEffect(() => () => stop(), []);
+
+  const isActive = status !== 'idle';
+
+  return (
+    <div className="flex flex-col h-full bg-gray-800 text-gray-200">
+      <div className="p-4 bg-gray-900 border-b border-gray-700">
+        <h2 className="text-xl font-bold">Live Voice</h2>
+        <p className="text-sm text-gray-400">
+          A spoken conversation with the {voice} voice. Transcripts are saved to {chatTitle ? `"${chatTitle}"` : 'the current chat'}.
+        </p>
+      </div>
+      {error && <div role="alert" className="bg-red-800 text-red-100 p-2 text-center text-sm">{error}</div>}
+
+      <div className="flex-1 flex flex-col items-center justify-center gap-6 p-6">
+        <button
+          onClick={isActive ? stop : start}
+          disabled={status === 'connecting'}
+          className={`w-24 h-24 rounded-full flex items-center justify-center transition-colors disabled:opacity-60 ${isActive ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'}`}
+          aria-label={isActive ? 'End live conversation' : 'Start live conversation'}
+        >
+          {isActive ? <StopIcon /> : <MicIcon />}
+        </button>
+        <p className="text-sm text-gray-400 text-center" aria-live="polite">{STATUS_TEXT[status]}</p>
+        <div className="w-48 h-1.5 bg-gray-700 rounded-full overflow-hidden" aria-hidden="true">
+          <div className="h-full bg-green-500 transition-[width] duration-100" style={{ width: `${Math.round(level * 100)}%` }} />
+        </div>
+
+        {(captions.user || captions.model) && (
+          <div className="w-full max-w-2xl space-y-3 bg-gray-900/60 rounded-lg p-4 text-sm">
+            {captions.user && (
+              <p><span className="font-semibold text-blue-300">You: </span>{captions.user.text.trim()}</p>
+            )}
+            {captions.model && (
+              <p>
+                <span className="font-semibold text-purple-300">Intellecto: </span>{captions.model.text.trim()}
+                {captions.wasInterrupted && <span className="text-gray-500 italic"> (interrupted)</span>}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LiveConversation;
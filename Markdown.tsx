@@ -0,0 +1,74 @@
+import React, { ReactElement } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import remarkBreaks from 'remark-breaks';
+import rehypeKatex from 'rehype-katex';
+import CodeBlock from './CodeBlock';
+
+interface MarkdownProps {
+  text: string;
+}
+
+const SAFE_URL_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+// Raw HTML in messages is never rendered (there is no rehype-raw), so links and images are the
+// only way to smuggle in script. Anything that isn't a plain web, mail or phone URL is dropped.
+export const sanitizeUrl = (url: string): string => {
+  const trimmed = url.trim();
+  if (trimmed.startsWith('#') || trimmed.startsWith('/')) return trimmed;
+  try {
+    const { protocol } = new URL(trimmed);
+    return SAFE_URL_PROTOCOLS.includes(protocol) ? trimmed : '';
+  } catch {
+    return '';
+  }
+};
+
+const components: Components = {
+  h1: ({ children }) => <h1 className="text-2xl font-bold mt-4 mb-2">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-xl font-bold mt-4 mb-2">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-lg font-semibold mt-3 mb-1">{children}</h3>,
+  h4: ({ children }) => <h4 className="font-semibold mt-3 mb-1">{children}</h4>,
+  p: ({ children }) => <p className="my-2 first:mt-0 last:mb-0 leading-relaxed">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-6 my-2 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-6 my-2 space-y-1">{children}</ol>,
+  blockquote: ({ children }) => <blockquote className="border-l-4 border-gray-500 pl-3 my-2 text-gray-300 italic">{children}</blockquote>,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer nofollow" className="text-blue-400 hover:underline break-words">
+      {children}
+    </a>
+  ),
+  table: ({ children }) => (
+    <div className="overflow-x-auto my-2">
+      <table className="min-w-full text-sm border-collapse">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => <th style={style} className="border border-gray-600 bg-gray-800 px-3 py-1.5 text-left font-semibold">{children}</th>,
+  td: ({ children, style }) => <td style={style} className="border border-gray-600 px-3 py-1.5">{children}</td>,
+  hr: () => <hr className="my-4 border-gray-600" />,
+  code: ({ className, children }) => (
+    <code className={`${className || ''} font-mono text-sm bg-gray-900/60 rounded px-1 py-0.5`}>{children}</code>
+  ),
+  // Fenced blocks arrive as <pre><code class="language-x">; hand the raw code to CodeBlock.
+  pre: ({ children }) => {
+    const codeElement = React.Children.toArray(children)[0] as ReactElement<{ className?: string, children?: React.ReactNode }> | undefined;
+    const code = String(codeElement?.props.children ?? '').replace(/\n$/, '');
+    const language = /language-(\S+)/.exec(codeElement?.props.className || '')?.[1];
+    return <CodeBlock code={code} language={language} />;
+  },
+};
+
+// Single line breaks are kept (remark-breaks) because that's what people expect from chat text.
+const Markdown: React.FC<MarkdownProps> = ({ text }) => (
+  <ReactMarkdown
+    remarkPlugins={[remarkGfm, remarkMath, remarkBreaks]}
+    rehypePlugins={[rehypeKatex]}
+    components={components}
+    urlTransform={sanitizeUrl}
+  >
+    {text}
+  </ReactMarkdown>
+);
+
+export default Markdown;
@@ -0,0 +1,199 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface MaskEditorProps {
+  src: string; // The image being masked
+  disabled?: boolean;
+  // A black PNG, the size of the image, with the painted area in white; null when nothing is painted.
+  onMaskChange: (mask: string | null) => void;
+}
+
+type MaskTool = 'brush' | 'eraser';
+
+// The paint canvas is kept at most this big on its longest side; masks don't need fine detail,
+// and it keeps the undo snapshots small.
+const MAX_CANVAS_SIDE = 1024;
+const UNDO_LIMIT = 20;
+const BRUSH_SIZES = { min: 4, max: 120, initial: 32 }; // In screen pixels
+const PAINT_COLOR = '#f43f5e';
+
+const isCanvasEmpty = (canvas: HTMLCanvasElement) => {
+  const pixels = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height).data;
+  for (let i = 3; i < pixels.length; i += 4) {
+    if (pixels[i] !== 0) return false;
+  }
+  return true;
+};
+
+// Anything painted becomes white on black, scaled up to the image's own size.
+const exportMask = (canvas: HTMLCanvasElement, width: number, height: number): string => {
+  const mask = document.createElement('canvas');
+  mask.width = width;
+  mask.height = height;
+  const ctx = mask.getContext('2d')!;
+  ctx.drawImage(canvas, 0, 0, width, height);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+  return mask.toDataURL('image/png');
+};
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ src, disabled, onMaskChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imageSizeRef = useRef({ width: 0, height: 0 });
+  const lastPointRef = useRef<{ x: number, y: number } | null>(null);
+  const undoStackRef = useRef<ImageData[]>([]);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(BRUSH_SIZES.initial);
+  const [undoCount, setUndoCount] = useState(0);
+  const [hasMask, setHasMask] = useState(false);
+
+  // A new image starts with a clean mask.
+  useEffect(() => {
+    undoStackRef.current = [];
+    setUndoCount(0);
+    setHasMask(false);
+    onMaskChange(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [src]);
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const scale = Math.min(1, MAX_CANVAS_SIDE / Math.max(width, height));
+    imageSizeRef.current = { width, height };
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+  };
+
+  const publish = () => {
+    const canvas = canvasRef.current!;
+    const isEmpty = isCanvasEmpty(canvas);
+    setHasMask(!isEmpty);
+    const { width, height } = imageSizeRef.current;
+    onMaskChange(isEmpty ? null : exportMask(canvas, width, height));
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  const drawTo = (canvas: HTMLCanvasElement, point: { x: number, y: number }) => {
+    const ctx = canvas.getContext('2d')!;
+    const from = lastPointRef.current || point;
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = PAINT_COLOR;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    // The size is picked in screen pixels, so it has to follow the canvas's scaling.
+    ctx.lineWidth = brushSize * (canvas.width / canvas.getBoundingClientRect().width);
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPointRef.current = point;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled || e.button !== 0) return;
+    const canvas = e.currentTarget;
+    canvas.setPointerCapture(e.pointerId);
+    const snapshot = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+    undoStackRef.current = [...undoStackRef.current, snapshot].slice(-UNDO_LIMIT);
+    setUndoCount(undoStackRef.current.length);
+    lastPointRef.current = null;
+    drawTo(canvas, toCanvasPoint(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    drawTo(e.currentTarget, toCanvasPoint(e));
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    publish();
+  };
+
+  const handleUndo = () => {
+    const snapshot = undoStackRef.current.pop();
+    if (!snapshot) return;
+    canvasRef.current!.getContext('2d')!.putImageData(snapshot, 0, 0);
+    setUndoCount(undoStackRef.current.length);
+    publish();
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current!;
+    const ctx = canvas.getContext('2d')!;
+    undoStackRef.current = [...undoStackRef.current, ctx.getImageData(0, 0, canvas.width, canvas.height)].slice(-UNDO_LIMIT);
+    setUndoCount(undoStackRef.current.length);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    publish();
+  };
+
+  const toolButton = (value: MaskTool, label: string) => (
+    <button
+      type="button"
+      onClick={() => setTool(value)}
+      aria-pressed={tool === value}
+      disabled={disabled}
+      className={`px-3 py-1.5 text-sm rounded-md transition-colors ${tool === value ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {toolButton('brush', 'Brush')}
+        {toolButton('eraser', 'Eraser')}
+        <label htmlFor="mask-brush-size" className="ml-2 text-xs text-gray-400">Size</label>
+        <input
+          id="mask-brush-size"
+          type="range"
+          min={BRUSH_SIZES.min}
+          max={BRUSH_SIZES.max}
+          value={brushSize}
+          onChange={e => setBrushSize(Number(e.target.value))}
+          disabled={disabled}
+          className="w-28"
+        />
+        <span className="text-xs text-gray-400 tabular-nums w-10">{brushSize}px</span>
+        <button type="button" onClick={handleUndo} disabled={disabled || undoCount === 0} className="px-2 py-1.5 text-xs rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:text-gray-500 disabled:cursor-not-allowed">
+          Undo
+        </button>
+        <button type="button" onClick={handleClear} disabled={disabled || !hasMask} className="px-2 py-1.5 text-xs rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:text-gray-500 disabled:cursor-not-allowed">
+          Clear
+        </button>
+      </div>
+      <div className="relative w-fit max-w-full mx-auto">
+        <img src={src} alt="Image to edit" onLoad={handleImageLoad} className="block max-w-full max-h-96 w-auto rounded-md select-none" draggable={false} />
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className={`absolute inset-0 w-full h-full rounded-md opacity-50 touch-none ${disabled ? 'cursor-not-allowed' : 'cursor-crosshair'}`}
+          aria-label="Paint over the area to change"
+        />
+      </div>
+      <p className="text-xs text-gray-400">
+        {hasMask ? 'Only the painted area will be changed.' : 'Paint over the area you want to change.'}
+      </p>
+    </div>
+  );
+};
+
+export default MaskEditor;
@@ -0,0 +1,171 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatSession } from '../types';
+import { getAllTags, getVisibleSessions, parseTags, SessionChanges, SessionFilter } from '../services/sessionOrganization';
+import { ArchiveIcon, MoreIcon, PinIcon, TrashIcon } from './icons/Icons';
+
+interface SessionListProps {
+  sessions: ChatSession[];
+  activeChatId: string | null;
+  filter: SessionFilter;
+  onFilterChange: (filter: SessionFilter) => void;
+  onSelect: (sessionId: string) => void;
+  onUpdate: (sessionId: string, changes: SessionChanges) => void;
+  onRetitle: (sessionId: string) => void;
+  onDelete: (sessionId: string) => void;
+}
+
+interface SessionListItemProps extends Omit<SessionListProps, 'sessions' | 'activeChatId' | 'filter' | 'onFilterChange'> {
+  session: ChatSession;
+  isActive: boolean;
+}
+
+type EditMode = 'rename' | 'tags' | null;
+
+const SessionListItem: React.FC<SessionListItemProps> = ({ session, isActive, onSelect, onUpdate, onRetitle, onDelete }) => {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [editMode, setEditMode] = useState<EditMode>(null);
+  const [draft, setDraft] = useState('');
+  const wrapperRef = useRef<HTMLDivElement>(null);
+
+  // Close menu on outside click
+  useEffect(() => {
+    if (!isMenuOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (wrapperRef.current && !wrapperRef.current.contains(event.target as Node)) {
+        setIsMenuOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isMenuOpen]);
+
+  const startEditing = (mode: EditMode) => {
+    setDraft(mode === 'rename' ? session.title : (session.tags || []).join(', '));
+    setEditMode(mode);
+    setIsMenuOpen(false);
+  };
+
+  const saveEdit = () => {
+    if (editMode === 'rename' && draft.trim()) {
+      onUpdate(session.id, { title: draft.trim() });
+    } else if (editMode === 'tags') {
+      onUpdate(session.id, { tags: parseTags(draft) });
+    }
+    setEditMode(null);
+  };
+
+  const runMenuAction = (action: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsMenuOpen(false);
+    action();
+  };
+
+  if (editMode) {
+    return (
+      <div className="p-2 rounded-lg bg-gray-700">
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') saveEdit();
+            else if (e.key === 'Escape') setEditMode(null);
+          }}
+          onBlur={saveEdit}
+          placeholder={editMode === 'tags' ? 'Tags, separated by commas' : 'Chat title'}
+          aria-label={editMode === 'tags' ? 'Tags for this chat' : 'New chat title'}
+          className="w-full bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-sm text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+          autoFocus
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={wrapperRef}
+      className={`relative group flex items-center p-3 rounded-lg cursor-pointer transition-colors ${isActive ? 'bg-gray-700' : 'hover:bg-gray-700/50'}`}
+      onClick={() => onSelect(session.id)}
+      onDoubleClick={() => startEditing('rename')}
+    >
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-1.5">
+          {session.isPinned && <span className="text-blue-400 shrink-0" aria-label="Pinned"><PinIcon filled /></span>}
+          <span className="truncate text-sm">{session.title}</span>
+        </div>
+        {session.tags && session.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-1">
+            {session.tags.map(tag => (
+              <span key={tag} className="text-[10px] leading-4 px-1.5 rounded bg-gray-600 text-gray-300">#{tag}</span>
+            ))}
+          </div>
+        )}
+      </div>
+      <button
+        onClick={(e) => { e.stopPropagation(); setIsMenuOpen(open => !open); }}
+        className={`ml-2 text-gray-400 hover:text-white transition-opacity ${isMenuOpen ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 focus:opacity-100'}`}
+        aria-label={`Options for ${session.title}`}
+        aria-expanded={isMenuOpen}
+      >
+        <MoreIcon />
+      </button>
+      {isMenuOpen && (
+        <div className="absolute right-2 top-full mt-1 w-40 bg-gray-900 border border-gray-600 rounded-lg shadow-lg z-10 p-1 text-sm" role="menu">
+          <button role="menuitem" onClick={runMenuAction(() => onUpdate(session.id, { isPinned: !session.isPinned }))} className="w-full flex items-center gap-2 px-3 py-1.5 text-left text-gray-200 hover:bg-gray-700 rounded-md">
+            <PinIcon filled={session.isPinned} /> {session.isPinned ? 'Unpin' : 'Pin to top'}
+          </button>
+          <button role="menuitem" onClick={runMenuAction(() => startEditing('rename'))} className="w-full px-3 py-1.5 text-left text-gray-200 hover:bg-gray-700 rounded-md">Rename</button>
+          <button role="menuitem" onClick={runMenuAction(() => onRetitle(session.id))} className="w-full px-3 py-1.5 text-left text-gray-200 hover:bg-gray-700 rounded-md">Suggest a title</button>
+          <button role="menuitem" onClick={runMenuAction(() => startEditing('tags'))} className="w-full px-3 py-1.5 text-left text-gray-200 hover:bg-gray-700 rounded-md">Edit tags</button>
+          <button role="menuitem" onClick={runMenuAction(() => onUpdate(session.id, { isArchived: !session.isArchived }))} className="w-full flex items-center gap-2 px-3 py-1.5 text-left text-gray-200 hover:bg-gray-700 rounded-md">
+            <ArchiveIcon /> {session.isArchived ? 'Unarchive' : 'Archive'}
+          </button>
+          <div className="h-px bg-gray-600 my-1"></div>
+          <button role="menuitem" onClick={runMenuAction(() => onDelete(session.id))} className="w-full flex items-center gap-2 px-3 py-1.5 text-left text-red-400 hover:bg-gray-700 rounded-md">
+            <TrashIcon /> Delete
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SessionList: React.FC<SessionListProps> = ({ sessions, activeChatId, filter, onFilterChange, ...itemProps }) => {
+  const tags = getAllTags(sessions);
+  const archivedCount = sessions.filter(session => session.isArchived).length;
+  // A filter that no longer matches anything (the last chat with that tag was untagged, or
+  // the last archived chat restored) falls back to the normal list.
+  const activeFilter: SessionFilter = {
+    tag: filter.tag && tags.includes(filter.tag) ? filter.tag : null,
+    showArchived: filter.showArchived && archivedCount > 0,
+  };
+  const visibleSessions = getVisibleSessions(sessions, activeFilter);
+
+  const chipClass = (isSelected: boolean) =>
+    `px-2 py-0.5 rounded-full text-xs border transition-colors ${isSelected ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-600 text-gray-300 hover:bg-gray-700'}`;
+
+  return (
+    <>
+      {(tags.length > 0 || archivedCount > 0) && (
+        <div className="flex flex-wrap gap-1.5 mb-2" aria-label="Filter chats">
+          <button onClick={() => onFilterChange({ tag: null, showArchived: false })} className={chipClass(!activeFilter.tag && !activeFilter.showArchived)}>All</button>
+          {tags.map(tag => (
+            <button key={tag} onClick={() => onFilterChange({ ...activeFilter, tag })} className={chipClass(activeFilter.tag === tag)}>#{tag}</button>
+          ))}
+          {archivedCount > 0 && (
+            <button onClick={() => onFilterChange({ ...activeFilter, showArchived: !activeFilter.showArchived })} className={chipClass(activeFilter.showArchived)}>
+              Archived ({archivedCount})
+            </button>
+          )}
+        </div>
+      )}
+      {visibleSessions.length === 0 && (
+        <p className="text-sm text-gray-500 px-1">{activeFilter.showArchived ? 'No archived chats.' : 'No chats here yet.'}</p>
+      )}
+      {visibleSessions.map(session => (
+        <SessionListItem key={session.id} session={session} isActive={activeChatId === session.id} {...itemProps} />
+      ))}
+    </>
+  );
+};
+
+export default SessionList;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { getTools } from '../services/toolRegistry';
+import { ToolPermission } from '../services/toolPermissions';
+
+interface ToolPermissionsSettingsProps {
+  permissions: Record<string, ToolPermission>;
+  onChange: (toolName: string, permission: ToolPermission) => void;
+}
+
+const ToolPermissionsSettings: React.FC<ToolPermissionsSettingsProps> = ({ permissions, onChange }) => {
+  const tools = getTools().filter(tool => tool.describeAction);
+  if (tools.length === 0) return null;
+
+  return (
+    <div className="mt-4">
+      <span className="block text-xs font-medium text-gray-400 mb-2">Actions outside the app</span>
+      <div className="space-y-2">
+        {tools.map(tool => {
+          const name = tool.declaration.name;
+          return (
+            <div key={name} className="flex items-center justify-between gap-2">
+              <label htmlFor={`tool-permission-${name}`} className="text-sm text-gray-300">{tool.label}</label>
+              <select
+                id={`tool-permission-${name}`}
+                value={permissions[name] || 'ask'}
+                onChange={e => onChange(name, e.target.value as ToolPermission)}
+                className="bg-gray-700 border border-gray-600 rounded-md p-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+              >
+                <option value="ask" className="bg-gray-800">Ask first</option>
+                <option value="allow" className="bg-gray-800">Always allow</option>
+                <option value="deny" className="bg-gray-800">Never allow</option>
+              </select>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ToolPermissionsSettings;
@@ -0,0 +1,220 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { ChatSession } from '../types';
+import {
+  clearUsageLog,
+  describeUsage,
+  estimateCost,
+  formatCost,
+  formatTokens,
+  getDailyTotals,
+  getTodayTokens,
+  isOverUsageThreshold,
+  loadUsageLog,
+  subscribeToUsage,
+  toDayKey,
+  totalTokens,
+  USAGE_FEATURES,
+  UsageFeature,
+  UsageSettings,
+} from '../services/usage';
+
+interface UsagePanelProps {
+  sessions: ChatSession[];
+  settings: UsageSettings;
+  onSettingsChange: (settings: UsageSettings) => void;
+  onSelectChat: (id: string) => void;
+}
+
+// How many of the most expensive chats to list.
+const TOP_CHATS = 10;
+
+export const useUsageLog = () => useSyncExternalStore(subscribeToUsage, loadUsageLog);
+
+const SettingsForm: React.FC<{ settings: UsageSettings, onSave: (settings: UsageSettings) => void }> = ({ settings, onSave }) => {
+  const [draft, setDraft] = useState({
+    inputCostPerMillion: String(settings.inputCostPerMillion),
+    outputCostPerMillion: String(settings.outputCostPerMillion),
+    dailyWarningTokens: String(settings.dailyWarningTokens),
+  });
+  const [saved, setSaved] = useState(false);
+
+  const parsed = {
+    inputCostPerMillion: Number(draft.inputCostPerMillion),
+    outputCostPerMillion: Number(draft.outputCostPerMillion),
+    dailyWarningTokens: Math.round(Number(draft.dailyWarningTokens)),
+  };
+  const isValid = Object.values(draft).every(value => value.trim() !== '') && Object.values(parsed).every(value => Number.isFinite(value) && value >= 0);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    onSave(parsed);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  const field = (key: keyof typeof draft, label: string, step: string) => (
+    <div>
+      <label htmlFor={`usage-${key}`} className="block text-gray-300 text-sm font-bold mb-2">{label}</label>
+      <input
+        id={`usage-${key}`}
+        type="number"
+        min="0"
+        step={step}
+        value={draft[key]}
+        onChange={e => setDraft({ ...draft, [key]: e.target.value })}
+        className="w-full p-2 border border-gray-600 rounded-lg bg-gray-700 text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+      />
+    </div>
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {field('inputCostPerMillion', 'Prompt cost (USD / 1M tokens)', '0.01')}
+        {field('outputCostPerMillion', 'Response cost (USD / 1M tokens)', '0.01')}
+        {field('dailyWarningTokens', 'Daily warning (tokens, 0 for none)', '1000')}
+      </div>
+      <div className="flex items-center gap-3">
+        <button type="submit" disabled={!isValid} className="px-4 py-2 bg-blue-600 text-white font-bold rounded-lg disabled:bg-gray-600 disabled:cursor-not-allowed hover:bg-blue-700 transition-colors">
+          Save
+        </button>
+        {saved && <span className="text-sm text-green-400">Saved</span>}
+      </div>
+      <p className="text-xs text-gray-400">Costs are estimates from the rates above. Thinking tokens are charged at the response rate.</p>
+    </form>
+  );
+};
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ sessions, settings, onSettingsChange, onSelectChat }) => {
+  const log = useUsageLog();
+  const days = getDailyTotals(log);
+  const today = days.find(day => day.day === toDayKey());
+  const todayTokens = getTodayTokens(log);
+  const topChats = sessions
+    .filter(session => session.usage && totalTokens(session.usage) > 0)
+    .sort((a, b) => totalTokens(b.usage!) - totalTokens(a.usage!))
+    .slice(0, TOP_CHATS);
+
+  const handleClear = () => {
+    if (window.confirm('Clear the daily usage history? Token counts on chats are kept.')) clearUsageLog();
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-gray-800 p-6 overflow-y-auto">
+      <div className="p-4 bg-gray-900 border-b border-gray-700 mb-6 rounded-t-lg">
+        <h2 className="text-xl font-bold">Usage</h2>
+        <p className="text-sm text-gray-400">Tokens used by each feature and chat, with estimated costs. Counts are kept in this browser only.</p>
+      </div>
+
+      {isOverUsageThreshold(todayTokens, settings) && (
+        <div className="bg-yellow-900/60 border border-yellow-700 text-yellow-100 rounded-lg p-3 mb-6 text-sm" role="alert">
+          Today's usage ({formatTokens(todayTokens)} tokens) is over your warning threshold of {formatTokens(settings.dailyWarningTokens)}.
+        </div>
+      )}
+
+      <section className="mb-8">
+        <h3 className="text-lg font-semibold mb-3">Today</h3>
+        {today ? (
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-400">
+              <tr>
+                <th className="py-1 font-medium">Feature</th>
+                <th className="py-1 font-medium text-right">Requests</th>
+                <th className="py-1 font-medium text-right">Tokens</th>
+                <th className="py-1 font-medium text-right">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(Object.keys(USAGE_FEATURES) as UsageFeature[]).filter(feature => today.byFeature[feature]).map(feature => {
+                const usage = today.byFeature[feature]!;
+                return (
+                  <tr key={feature} className="border-t border-gray-700">
+                    <td className="py-1.5">{USAGE_FEATURES[feature]}</td>
+                    <td className="py-1.5 text-right tabular-nums">{usage.requests}</td>
+                    <td className="py-1.5 text-right tabular-nums" title={describeUsage(usage)}>{formatTokens(totalTokens(usage))}</td>
+                    <td className="py-1.5 text-right tabular-nums">{formatCost(estimateCost(usage, settings))}</td>
+                  </tr>
+                );
+              })}
+              <tr className="border-t border-gray-600 font-semibold">
+                <td className="py-1.5">Total</td>
+                <td className="py-1.5 text-right tabular-nums">{today.total.requests}</td>
+                <td className="py-1.5 text-right tabular-nums" title={describeUsage(today.total)}>{formatTokens(totalTokens(today.total))}</td>
+                <td className="py-1.5 text-right tabular-nums">{formatCost(estimateCost(today.total, settings))}</td>
+              </tr>
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-gray-400">Nothing used yet today.</p>
+        )}
+      </section>
+
+      <section className="mb-8">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-semibold">Daily totals</h3>
+          {days.length > 0 && (
+            <button onClick={handleClear} className="px-2 py-1 text-xs rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200">Clear history</button>
+          )}
+        </div>
+        {days.length > 0 ? (
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-400">
+              <tr>
+                <th className="py-1 font-medium">Day</th>
+                <th className="py-1 font-medium text-right">Prompt</th>
+                <th className="py-1 font-medium text-right">Response</th>
+                <th className="py-1 font-medium text-right">Thinking</th>
+                <th className="py-1 font-medium text-right">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {days.map(({ day, total }) => (
+                <tr key={day} className={`border-t border-gray-700 ${isOverUsageThreshold(totalTokens(total), settings) ? 'text-yellow-300' : ''}`}>
+                  <td className="py-1.5">{day}</td>
+                  <td className="py-1.5 text-right tabular-nums">{formatTokens(total.promptTokens)}</td>
+                  <td className="py-1.5 text-right tabular-nums">{formatTokens(total.responseTokens)}</td>
+                  <td className="py-1.5 text-right tabular-nums">{formatTokens(total.thinkingTokens)}</td>
+                  <td className="py-1.5 text-right tabular-nums">{formatCost(estimateCost(total, settings))}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-gray-400">No usage recorded yet.</p>
+        )}
+      </section>
+
+      <section className="mb-8">
+        <h3 className="text-lg font-semibold mb-3">Chats using the most</h3>
+        {topChats.length > 0 ? (
+          <ul className="space-y-1 text-sm">
+            {topChats.map(session => (
+              <li key={session.id}>
+                <button
+                  onClick={() => onSelectChat(session.id)}
+                  className="w-full flex items-center justify-between gap-4 px-2 py-1.5 rounded-md hover:bg-gray-700 text-left"
+                  title={describeUsage(session.usage!)}
+                >
+                  <span className="truncate">{session.title}</span>
+                  <span className="flex-shrink-0 tabular-nums text-gray-400">
+                    {formatTokens(totalTokens(session.usage!))} tokens · {formatCost(estimateCost(session.usage!, settings))}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-400">No chat has used any tokens yet.</p>
+        )}
+      </section>
+
+      <section>
+        <h3 className="text-lg font-semibold mb-3">Cost estimates and warning</h3>
+        <SettingsForm settings={settings} onSave={onSettingsChange} />
+      </section>
+    </div>
+  );
+};
+
+export default UsagePanel;
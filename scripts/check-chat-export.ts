@@ -0,0 +1,46 @@
+// Round-trip check for JSON chat backups: `npm run check-export`. Exports a chat that uses
+// every field the importer is meant to keep, imports it again and compares the two. Exits
+// non-zero, with a diff, when something is dropped or changed on the way.
+
+import assert from 'node:assert/strict';
+import { ChatSession } from '../types';
+import { exportToJson, importFromJson } from '../services/chatExport';
+
+const session: ChatSession = {
+  id: 'chat-1',
+  title: 'Round trip',
+  messages: [
+    { id: 'm1', role: 'model', text: 'Hello! How can I help?' },
+    { id: 'm2', parentId: 'm1', role: 'user', text: 'What is 2 + 2?' },
+    {
+      id: 'm3',
+      parentId: 'm2',
+      role: 'model',
+      text: '4',
+      isTurnReply: true,
+      sources: [{ uri: 'https://example.com/', title: 'Example' }],
+      usage: { promptTokens: 120, responseTokens: 8, thinkingTokens: 32 },
+    },
+    { id: 'm4', parentId: 'm2', role: 'model', text: 'Four.', isTurnReply: true, usage: { promptTokens: 120, responseTokens: 6, thinkingTokens: 0 } },
+    { id: 'm5', parentId: 'm4', role: 'model', text: '', approval: { toolName: 'openApplication', action: 'Open Maps', status: 'denied' } },
+    { id: 'm6', parentId: 'm5', role: 'user', text: 'And 3 + 3?', pendingSince: 1760000000000 },
+  ],
+  activeBranches: { m2: 'm4' },
+  isPinned: true,
+  tags: ['maths'],
+  usage: { promptTokens: 240, responseTokens: 14, thinkingTokens: 32 },
+};
+
+const [imported] = importFromJson(exportToJson([session]), []);
+assert.deepStrictEqual(imported, session);
+
+// Nothing can answer a pending approval after import, so it comes back expired.
+const pending: ChatSession = {
+  id: 'chat-2',
+  title: 'Pending approval',
+  messages: [{ id: 'p1', role: 'model', text: '', approval: { toolName: 'openApplication', action: 'Open Email', status: 'pending' } }],
+};
+const [importedPending] = importFromJson(exportToJson([pending]), []);
+assert.equal(importedPending.messages[0].approval?.status, 'expired');
+
+console.log('Chat export round trip: OK');
@@ -0,0 +1,234 @@
+// Mock live voice server for offline development: `npm run mock-live`, then use Live Voice
+// with the mock provider. Plain Node, no dependencies; it speaks just enough of the WebSocket
+// protocol (RFC 6455) for one browser client per connection.
+//
+// Messages are JSON text frames.
+//   Client -> server: { type: 'audio', data }         base64 16-bit PCM, mono, 16kHz
+//   Server -> client: { type: 'inputTranscript', text }
+//                     { type: 'outputTranscript', text }
+//                     { type: 'audio', data }         base64 16-bit PCM, mono, 24kHz
+//                     { type: 'interrupted' }         the user talked over the reply
+//                     { type: 'turnComplete' }
+//
+// There is no speech recognition: the server detects when the user starts and stops talking
+// by loudness, then answers with a canned sentence spoken as a soft hum, one burst per word.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT || process.argv[2] || 8787);
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const INPUT_SAMPLE_RATE = 16000;
+const OUTPUT_SAMPLE_RATE = 24000;
+const SPEECH_THRESHOLD = 0.02; // RMS of samples scaled to -1..1
+const END_OF_SPEECH_MS = 700;
+const WORD_MS = 220;
+const WORD_GAP_MS = 80;
+
+const REPLIES = [
+  'This is the mock live server. I heard you, but I cannot understand words.',
+  'Hello from the offline mock. Try talking over me to test barge in.',
+  'Everything you say is written into the chat as a transcript, and so is this reply.',
+];
+
+// --- WebSocket framing ---
+
+const encodeFrame = (payload, opcode = 0x1) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Pulls complete frames off the front of `buffer`. Returns the frames and the unread rest.
+const decodeFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const first = buffer[offset];
+    const second = buffer[offset + 1];
+    const masked = (second & 0x80) !== 0;
+    let length = second & 0x7f;
+    let headerLength = 2;
+    if (length === 126) {
+      if (buffer.length - offset < 4) break;
+      length = buffer.readUInt16BE(offset + 2);
+      headerLength = 4;
+    } else if (length === 127) {
+      if (buffer.length - offset < 10) break;
+      length = Number(buffer.readBigUInt64BE(offset + 2));
+      headerLength = 10;
+    }
+    const maskLength = masked ? 4 : 0;
+    const frameLength = headerLength + maskLength + length;
+    if (buffer.length - offset < frameLength) break;
+
+    const payload = Buffer.from(buffer.subarray(offset + headerLength + maskLength, offset + frameLength));
+    if (masked) {
+      const mask = buffer.subarray(offset + headerLength, offset + headerLength + 4);
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    frames.push({ fin: (first & 0x80) !== 0, opcode: first & 0x0f, payload });
+    offset += frameLength;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+// --- Audio ---
+
+const loudness = (pcm) => {
+  const samples = pcm.length / 2;
+  if (samples === 0) return { rms: 0, ms: 0 };
+  let sum = 0;
+  for (let i = 0; i < pcm.length - 1; i += 2) {
+    const sample = pcm.readInt16LE(i) / 0x8000;
+    sum += sample * sample;
+  }
+  return { rms: Math.sqrt(sum / samples), ms: (samples / INPUT_SAMPLE_RATE) * 1000 };
+};
+
+// One word's worth of audio: a short hum with soft edges, followed by silence.
+const wordAudio = (index) => {
+  const toneSamples = Math.round((WORD_MS / 1000) * OUTPUT_SAMPLE_RATE);
+  const gapSamples = Math.round((WORD_GAP_MS / 1000) * OUTPUT_SAMPLE_RATE);
+  const pcm = Buffer.alloc((toneSamples + gapSamples) * 2);
+  const frequency = 180 + (index % 3) * 30;
+  for (let i = 0; i < toneSamples; i++) {
+    const envelope = Math.sin((Math.PI * i) / toneSamples);
+    const sample = 0.15 * envelope * Math.sin((2 * Math.PI * frequency * i) / OUTPUT_SAMPLE_RATE);
+    pcm.writeInt16LE(Math.round(sample * 0x7fff), i * 2);
+  }
+  return pcm.toString('base64');
+};
+
+// --- Sessions ---
+
+const startSession = (socket) => {
+  const send = (message) => {
+    if (!socket.destroyed) socket.write(encodeFrame(Buffer.from(JSON.stringify(message))));
+  };
+
+  let isUserSpeaking = false;
+  let speechMs = 0;
+  let silenceMs = 0;
+  let replyTimer = null;
+  let replyCount = 0;
+
+  const stopReply = () => {
+    clearTimeout(replyTimer);
+    replyTimer = null;
+  };
+
+  const reply = () => {
+    const words = REPLIES[replyCount++ % REPLIES.length].split(' ');
+    let index = 0;
+    const sendWord = () => {
+      if (index === words.length) {
+        replyTimer = null;
+        send({ type: 'turnComplete' });
+        return;
+      }
+      send({ type: 'outputTranscript', text: (index === 0 ? '' : ' ') + words[index] });
+      send({ type: 'audio', data: wordAudio(index) });
+      index++;
+      replyTimer = setTimeout(sendWord, WORD_MS + WORD_GAP_MS);
+    };
+    replyTimer = setTimeout(sendWord, 300);
+  };
+
+  const handleAudio = (base64) => {
+    const { rms, ms } = loudness(Buffer.from(base64, 'base64'));
+    if (rms >= SPEECH_THRESHOLD) {
+      if (!isUserSpeaking) {
+        isUserSpeaking = true;
+        speechMs = 0;
+        if (replyTimer) {
+          stopReply();
+          send({ type: 'interrupted' });
+        }
+      }
+      speechMs += ms;
+      silenceMs = 0;
+    } else if (isUserSpeaking) {
+      silenceMs += ms;
+      if (silenceMs >= END_OF_SPEECH_MS) {
+        isUserSpeaking = false;
+        send({ type: 'inputTranscript', text: `(mock transcript of ${(speechMs / 1000).toFixed(1)} seconds of speech)` });
+        reply();
+      }
+    }
+  };
+
+  let pending = Buffer.alloc(0);
+  let fragments = [];
+  socket.on('data', (chunk) => {
+    const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+    pending = rest;
+    for (const frame of frames) {
+      if (frame.opcode === 0x8) {
+        socket.end(encodeFrame(Buffer.alloc(0), 0x8));
+        return;
+      }
+      if (frame.opcode === 0x9) {
+        socket.write(encodeFrame(frame.payload, 0xa));
+        continue;
+      }
+      if (frame.opcode !== 0x1 && frame.opcode !== 0x0) continue;
+      fragments.push(frame.payload);
+      if (!frame.fin) continue;
+      const text = Buffer.concat(fragments).toString('utf8');
+      fragments = [];
+      try {
+        const message = JSON.parse(text);
+        if (message.type === 'audio' && typeof message.data === 'string') handleAudio(message.data);
+      } catch {
+        console.warn('Ignoring a message that is not JSON.');
+      }
+    }
+  });
+  socket.on('close', () => {
+    stopReply();
+    console.log('Client disconnected.');
+  });
+  socket.on('error', (error) => console.warn('Socket error:', error.message));
+};
+
+const server = createServer((_request, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('This is the mock live voice server. Connect with a WebSocket.\n');
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    '',
+  ].join('\r\n'));
+  console.log('Client connected.');
+  startSession(socket);
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock live voice server listening on ws://localhost:${PORT}`);
+});
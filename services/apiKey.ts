@@ -0,0 +1,59 @@
+import { FeatureMode } from '../types';
+
+// Where the Gemini API key comes from. Inside AI Studio the host injects the key the user
+// selected with `window.aistudio.openSelectKey()`. Elsewhere a key the user entered is kept
+// in localStorage, falling back to GEMINI_API_KEY from the build.
+
+const STORED_KEY = 'intellecto-api-key';
+const PLACEHOLDER_API_KEY = 'PLACEHOLDER_API_KEY';
+
+export type ApiKeySource = 'aistudio' | 'stored' | 'build' | 'none';
+
+export const BILLING_DOCS_URL = 'https://ai.google.dev/gemini-api/docs/billing';
+
+// Features whose models have no free tier, so they fail without billing enabled on the key.
+export const BILLED_FEATURES: Partial<Record<FeatureMode, string>> = {
+  [FeatureMode.IMAGE_GENERATE]: 'Image generation',
+  [FeatureMode.IMAGE_EDIT]: 'Image editing',
+};
+
+export const requiresBilledKey = (feature: FeatureMode) => feature in BILLED_FEATURES;
+
+export const isAIStudio = () => typeof window !== 'undefined' && !!window.aistudio;
+
+const buildApiKey = () => {
+  const apiKey = process.env.API_KEY;
+  return apiKey && apiKey !== PLACEHOLDER_API_KEY ? apiKey : '';
+};
+
+export const getStoredApiKey = (): string => {
+  try {
+    return localStorage.getItem(STORED_KEY) || '';
+  } catch (error) {
+    console.warn("Could not read the stored API key:", error);
+    return '';
+  }
+};
+
+// Pass an empty key to forget the stored one.
+export const setStoredApiKey = (apiKey: string) => {
+  if (apiKey) {
+    localStorage.setItem(STORED_KEY, apiKey);
+  } else {
+    localStorage.removeItem(STORED_KEY);
+  }
+};
+
+export const getApiKeySource = (): ApiKeySource => {
+  if (isAIStudio()) return 'aistudio';
+  if (getStoredApiKey()) return 'stored';
+  return buildApiKey() ? 'build' : 'none';
+};
+
+// Read on every request, so a newly entered key takes effect without a reload.
+export const getApiKey = (): string => (getApiKeySource() === 'stored' ? getStoredApiKey() : buildApiKey());
+
+export const hasApiKey = () => isAIStudio() || !!getApiKey();
+
+// "AIza...9xQc" style, for showing which key is in use without revealing it.
+export const maskApiKey = (apiKey: string) => (apiKey.length > 8 ? `${apiKey.slice(0, 4)}…${apiKey.slice(-4)}` : '••••');
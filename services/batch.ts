@@ -0,0 +1,64 @@
+import { imageFileExtension, toFileName } from './download';
+import { dataUrlToBlob } from './sessionStore';
+import { createZip, ZipEntry } from './zip';
+
+// Image Studio's batch mode: one instruction applied to each image on its own, a few at a time.
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  name: string; // The uploaded file's name
+  source: string; // Data URL
+  status: BatchItemStatus;
+  result?: string; // Data URL
+  error?: string;
+  retries?: number; // Automatic retries of the current run, for progress
+}
+
+export const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+export const DEFAULT_CONCURRENCY = 2;
+
+export const createBatchItem = (name: string, source: string): BatchItem => ({
+  id: `batch-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  source,
+  status: 'queued',
+});
+
+// Runs `task` for each item with at most `limit` running at once. Once `signal` aborts, no
+// further items are started; those already running are left to finish.
+export const runWithConcurrency = async <T>(items: T[], limit: number, task: (item: T) => Promise<void>, signal?: AbortSignal) => {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length && !signal?.aborted) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+};
+
+// "photo.jpg" edited to a PNG becomes "photo-edited.png".
+export const resultFileName = (item: BatchItem) =>
+  `${toFileName(item.name.replace(/\.[^.]+$/, ''), 'image')}-edited.${imageFileExtension(item.result!)}`;
+
+// Numbers repeated names, so no file in the zip replaces another.
+const toUniqueNames = (names: string[]) => {
+  const used = new Set<string>();
+  return names.map(name => {
+    let unique = name;
+    for (let n = 2; used.has(unique); n++) unique = name.replace(/(\.\w+)$/, `-${n}$1`);
+    used.add(unique);
+    return unique;
+  });
+};
+
+export const zipBatchResults = (items: BatchItem[]): Promise<Blob> => {
+  const done = items.filter(item => item.status === 'done' && item.result);
+  const names = toUniqueNames(done.map(resultFileName));
+  const entries = done.flatMap((item, index): ZipEntry[] => {
+    const data = dataUrlToBlob(item.result!);
+    return data ? [{ name: names[index], data }] : [];
+  });
+  return createZip(entries);
+};
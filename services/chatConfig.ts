@@ -0,0 +1,30 @@
+export const CHAT_MODEL = 'gemini-2.5-flash';
+export const THINKING_MODEL = 'gemini-2.5-pro';
+export const IMAGE_MODEL = 'imagen-4.0-generate-001';
+export const IMAGE_EDIT_MODEL = 'gemini-2.5-flash-image';
+export const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+export const CHAT_SYSTEM_INSTRUCTION = 'You are Intellecto, a helpful and knowledgeable assistant. '
+  + 'Use generateImage when the user asks for a picture, solveComplexTask for problems that need careful multi-step reasoning, '
+  + 'and openApplication when the user wants to email, call, text, open Maps or play something on Spotify. '
+  + 'Use setTimer, setAlarm, startStopwatch, listTimers, dismissTimer and cancelTimer for timers and alarms. '
+  + 'You may call several tools at once. Their results are sent back to you, so finish with a short reply that builds on them.';
+
+// Chats are created for each turn, so this stays current.
+export const chatSystemInstruction = () => `${CHAT_SYSTEM_INSTRUCTION} The user's current local time is ${new Date().toString()}.`;
+
+// Live sessions have no tools; replies are spoken, so they should be short and plain.
+export const LIVE_SYSTEM_INSTRUCTION = 'You are Intellecto, a helpful and knowledgeable assistant, talking with the user out loud. '
+  + 'Keep replies brief and conversational, without lists, markdown or links.';
+
+// Sent with a source image and a black-and-white mask of the area to change.
+export const inpaintInstruction = (instruction: string) => 'The first image is the photo to edit. '
+  + 'The second image is a mask: change only the area that is white in the mask and keep everything in the black area exactly as it is, '
+  + `at the same size and framing. The edit to make: ${instruction}`;
+
+// The "## " headings let the complex task workspace split the answer into sections.
+export const COMPLEX_TASK_SYSTEM_INSTRUCTION = 'You solve hard problems carefully. '
+  + 'Structure the final answer in markdown sections, each starting with a "## " heading: '
+  + 'begin with "## Summary" giving the result in a few sentences, then sections such as "## Approach", "## Solution" and "## Caveats" as the problem needs. '
+  + 'Do not use "## " headings for anything else.';
@@ -0,0 +1,239 @@
+import { ChatMessage, ChatSession, TokenUsage, ToolApproval } from '../types';
+import { getActivePath, linkAsChain } from './messageTree';
+import { parseTags } from './sessionOrganization';
+
+// Backups of chat history. JSON is the lossless, re-importable format and keeps every branch;
+// Markdown and HTML are for reading and follow the branch that is currently selected.
+
+export const EXPORT_FORMAT = 'intellecto-chat-export';
+export const EXPORT_VERSION = 1;
+
+interface ChatExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  sessions: ChatSession[];
+}
+
+const speakerName = (message: ChatMessage) => (message.role === 'user' ? 'You' : 'Intellecto');
+
+// --- Export ---
+
+export const exportToJson = (sessions: ChatSession[]): string => {
+  const data: ChatExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    sessions: sessions.map(session => ({
+      ...session,
+      // Unsent messages keep `pendingSince`, so after import they wait in the outbox again.
+      messages: session.messages.map(({ isStreaming, ...message }) => message),
+    })),
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+export const exportToMarkdown = (sessions: ChatSession[]): string =>
+  sessions.map(session => {
+    const body = getActivePath(session).map(message => {
+      const lines = [`**${speakerName(message)}:**`, ''];
+      if (message.image) lines.push(`![Attached image](${message.image})`, '');
+      if (message.generatedImage) lines.push(`![Generated image](${message.generatedImage})`, '');
+      if (message.text) lines.push(message.text, '');
+      message.sources?.forEach((source, i) => lines.push(`${i + 1}. [${source.title || source.uri}](${source.uri})`));
+      return lines.join('\n').trim();
+    });
+    return [`# ${session.title}`, ...body].join('\n\n');
+  }).join('\n\n---\n\n') + '\n';
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+const safeHref = (uri: string) => (/^https?:\/\//i.test(uri) ? escapeHtml(uri) : '#');
+
+export const exportToHtml = (sessions: ChatSession[]): string => {
+  const sections = sessions.map(session => {
+    const messages = getActivePath(session).map(message => {
+      const parts = [`<div class="who">${speakerName(message)}</div>`];
+      if (message.image) parts.push(`<img src="${escapeHtml(message.image)}" alt="Attached image">`);
+      if (message.generatedImage) parts.push(`<img src="${escapeHtml(message.generatedImage)}" alt="Generated image">`);
+      if (message.text) parts.push(`<div class="text">${escapeHtml(message.text)}</div>`);
+      if (message.sources?.length) {
+        parts.push(`<ol class="sources">${message.sources.map(source =>
+          `<li><a href="${safeHref(source.uri)}" rel="noopener noreferrer">${escapeHtml(source.title || source.uri)}</a></li>`).join('')}</ol>`);
+      }
+      return `<div class="message ${message.role}${message.isError ? ' error' : ''}">${parts.join('')}</div>`;
+    });
+    return `<section><h1>${escapeHtml(session.title)}</h1>${messages.join('\n')}</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(sessions.length === 1 ? sessions[0].title : 'Intellecto chats')}</title>
+<style>
+  body { font-family: 'Inter', system-ui, sans-serif; background: #1f2937; color: #e5e7eb; margin: 0; padding: 2rem 1rem; }
+  section { max-width: 48rem; margin: 0 auto 3rem; }
+  h1 { font-size: 1.4rem; border-bottom: 1px solid #4b5563; padding-bottom: .5rem; }
+  .message { border-radius: .75rem; padding: .75rem 1rem; margin: .75rem 0; max-width: 85%; background: #374151; }
+  .message.user { background: #2563eb; color: #fff; margin-left: auto; }
+  .message.error { background: rgba(153, 27, 27, .5); }
+  .who { font-size: .75rem; font-weight: 600; opacity: .7; margin-bottom: .25rem; }
+  .text { white-space: pre-wrap; line-height: 1.5; }
+  img { max-width: 100%; max-height: 24rem; border-radius: .5rem; display: block; margin-bottom: .5rem; }
+  .sources { font-size: .85rem; margin: .5rem 0 0; }
+  a { color: #93c5fd; }
+</style>
+</head>
+<body>
+${sections.join('\n')}
+<p style="text-align:center;opacity:.5;font-size:.75rem">Exported from Intellecto AI on ${escapeHtml(new Date().toLocaleString())}</p>
+</body>
+</html>
+`;
+};
+
+// --- Import ---
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isImageDataUrl = (value: unknown): value is string => isString(value) && value.startsWith('data:image/');
+const isTokenCount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const parseUsage = (value: unknown): TokenUsage | undefined => {
+  if (!isObject(value)) return undefined;
+  const { promptTokens, responseTokens, thinkingTokens } = value;
+  if (!isTokenCount(promptTokens) || !isTokenCount(responseTokens) || !isTokenCount(thinkingTokens)) return undefined;
+  return { promptTokens, responseTokens, thinkingTokens };
+};
+
+const APPROVAL_STATUSES: ToolApproval['status'][] = ['pending', 'allowed', 'denied', 'expired'];
+
+const parseApproval = (value: unknown): ToolApproval | undefined => {
+  if (!isObject(value)) return undefined;
+  const { toolName, action, status } = value;
+  if (!isString(toolName) || !isString(action) || !APPROVAL_STATUSES.includes(status as ToolApproval['status'])) return undefined;
+  // As when loading from storage: the tool call a pending approval belonged to is long gone.
+  return { toolName, action, status: status === 'pending' ? 'expired' : status as ToolApproval['status'] };
+};
+
+const parseMessage = (value: unknown, where: string): ChatMessage => {
+  if (!isObject(value)) throw new Error(`${where} is not a message.`);
+  const { id, parentId, role, text, image, generatedImage, sources, isError, isTurnReply, usage, approval, pendingSince } = value;
+  if (!isString(id) || !id) throw new Error(`${where} has no ID.`);
+  if (role !== 'user' && role !== 'model') throw new Error(`${where} has an unknown role.`);
+  if (!isString(text)) throw new Error(`${where} has no text.`);
+  if (parentId !== undefined && !isString(parentId)) throw new Error(`${where} has an invalid parent.`);
+
+  const message: ChatMessage = { id, role, text };
+  if (isString(parentId) && parentId) message.parentId = parentId;
+  // Only embedded images are kept; links to elsewhere would break or leak on display.
+  if (isImageDataUrl(image)) message.image = image;
+  if (isImageDataUrl(generatedImage)) message.generatedImage = generatedImage;
+  if (Array.isArray(sources)) {
+    message.sources = sources
+      .filter((source): source is { uri: string, title: unknown } => isObject(source) && isString(source.uri))
+      .map(source => ({ uri: source.uri, title: isString(source.title) ? source.title : '' }));
+  }
+  if (isError === true) message.isError = true;
+  if (isTurnReply === true && role === 'model') message.isTurnReply = true;
+  const parsedUsage = parseUsage(usage);
+  if (parsedUsage) message.usage = parsedUsage;
+  const parsedApproval = parseApproval(approval);
+  if (parsedApproval) message.approval = parsedApproval;
+  if (role === 'user' && typeof pendingSince === 'number' && Number.isFinite(pendingSince)) message.pendingSince = pendingSince;
+  return message;
+};
+
+const parseSession = (value: unknown, index: number): ChatSession => {
+  const where = `Chat ${index + 1}`;
+  if (!isObject(value)) throw new Error(`${where} is not a chat.`);
+  const { id, title, messages, activeBranches, isPinned, isArchived, tags, usage } = value;
+  if (!isString(id) || !id) throw new Error(`${where} has no ID.`);
+  if (!Array.isArray(messages) || messages.length === 0) throw new Error(`${where} has no messages.`);
+
+  let parsedMessages = messages.map((message, i) => parseMessage(message, `Message ${i + 1} of chat ${index + 1}`));
+  // Exports made before branching existed are flat lists.
+  if (parsedMessages.every(message => !message.parentId)) {
+    parsedMessages = linkAsChain(parsedMessages);
+  }
+  const ids = new Set(parsedMessages.map(message => message.id));
+  if (ids.size !== parsedMessages.length) throw new Error(`${where} contains duplicate message IDs.`);
+  if (parsedMessages.some(message => message.parentId && !ids.has(message.parentId))) {
+    throw new Error(`${where} has messages that refer to a missing message.`);
+  }
+
+  const session: ChatSession = { id, title: isString(title) && title.trim() ? title : 'Imported Chat', messages: parsedMessages };
+  if (isObject(activeBranches)) {
+    session.activeBranches = Object.fromEntries(
+      Object.entries(activeBranches).filter((entry): entry is [string, string] => isString(entry[1]) && ids.has(entry[0]) && ids.has(entry[1]))
+    );
+  }
+  if (isPinned === true) session.isPinned = true;
+  if (isArchived === true) session.isArchived = true;
+  if (Array.isArray(tags)) {
+    const parsedTags = parseTags(tags.filter(isString).join(','));
+    if (parsedTags.length > 0) session.tags = parsedTags;
+  }
+  const parsedUsage = parseUsage(usage);
+  if (parsedUsage) session.usage = parsedUsage;
+  return session;
+};
+
+const uniqueId = (id: string, taken: Set<string>) => {
+  let candidate = id;
+  while (taken.has(candidate)) {
+    candidate = `${id}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+  taken.add(candidate);
+  return candidate;
+};
+
+// Gives imported sessions and messages fresh IDs wherever they clash with existing ones,
+// rewriting parent links and branch selections to match.
+const remapIds = (sessions: ChatSession[], existing: ChatSession[]): ChatSession[] => {
+  const takenSessionIds = new Set(existing.map(session => session.id));
+  const takenMessageIds = new Set(existing.flatMap(session => session.messages.map(message => message.id)));
+
+  return sessions.map(session => {
+    const messageIds = new Map<string, string>();
+    session.messages.forEach(message => messageIds.set(message.id, uniqueId(message.id, takenMessageIds)));
+    const remap = (id: string) => messageIds.get(id) || id;
+
+    return {
+      ...session,
+      id: uniqueId(session.id, takenSessionIds),
+      messages: session.messages.map(message => ({
+        ...message,
+        id: remap(message.id),
+        ...(message.parentId ? { parentId: remap(message.parentId) } : {}),
+      })),
+      ...(session.activeBranches ? {
+        activeBranches: Object.fromEntries(Object.entries(session.activeBranches).map(([parentId, childId]) => [remap(parentId), remap(childId)])),
+      } : {}),
+    };
+  });
+};
+
+// Parses and validates a JSON export. Throws an Error with a user-facing message if the file
+// isn't a valid export; otherwise returns its sessions with IDs that don't clash with `existing`.
+export const importFromJson = (json: string, existing: ChatSession[]): ChatSession[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  if (!isObject(data) || data.format !== EXPORT_FORMAT) {
+    throw new Error('This file is not an Intellecto chat export.');
+  }
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    throw new Error('This export was made by a newer version of Intellecto. Please update the app and try again.');
+  }
+  if (!Array.isArray(data.sessions)) {
+    throw new Error('This export contains no chats.');
+  }
+  return remapIds(data.sessions.map(parseSession), existing);
+};
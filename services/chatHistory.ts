@@ -0,0 +1,36 @@
+import { Content, Part } from '@google/genai';
+import { ChatMessage } from '../types';
+
+export interface InlineImage {
+  base64: string;
+  mimeType: string;
+}
+
+// Splits a base64 data URL into the pieces the API's inlineData parts expect.
+// Returns null for anything else (e.g. blob: URLs, which don't survive a reload).
+export const parseDataUrl = (dataUrl: string): InlineImage | null => {
+  const match = /^data:([^;,]+)(?:;[^;,]*)*;base64,(.*)$/s.exec(dataUrl);
+  return match ? { mimeType: match[1], base64: match[2] } : null;
+};
+
+export const toDataUrl = ({ base64, mimeType }: InlineImage) => `data:${mimeType};base64,${base64}`;
+
+// The parts for one message: its text plus any image the user attached.
+export const toParts = (message: ChatMessage): Part[] => {
+  const parts: Part[] = [];
+  if (message.text) {
+    parts.push({ text: message.text });
+  }
+  const image = message.image ? parseDataUrl(message.image) : null;
+  if (image) {
+    parts.push({ inlineData: { data: image.base64, mimeType: image.mimeType } });
+  }
+  return parts;
+};
+
+// Rebuilds API history from stored messages. Error bubbles are UI-only and are left out.
+export const toHistory = (messages: ChatMessage[]): Content[] =>
+  messages
+    .filter(message => !message.isError)
+    .map(message => ({ role: message.role, parts: toParts(message) }))
+    .filter(content => content.parts.length > 0);
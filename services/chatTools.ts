@@ -0,0 +1,112 @@
+import { Type } from '@google/genai';
+import { modelProvider } from './modelProvider';
+import { ChatTool } from './toolRegistry';
+
+const APP_NAMES: Record<string, string> = {
+  email: 'Email',
+  phone: 'Phone',
+  sms: 'Messages',
+  maps: 'Maps',
+  spotify: 'Spotify',
+};
+
+const applicationUri = (appName: string, query: string) => {
+  switch (appName) {
+    case 'email': return `mailto:${query}`;
+    case 'phone': return `tel:${query}`;
+    case 'sms': return `sms:${query}`;
+    case 'maps': return `https://maps.google.com/?q=${encodeURIComponent(query)}`;
+    case 'spotify': return query ? `spotify:search:${encodeURIComponent(query)}` : 'spotify:';
+    default: return '';
+  }
+};
+
+const openApplication: ChatTool = {
+  declaration: {
+    name: 'openApplication',
+    description: 'Opens another application on the user\'s device, such as email, phone, SMS, Maps or Spotify.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        appName: { type: Type.STRING, description: 'One of: email, phone, sms, maps, spotify.' },
+        query: { type: Type.STRING, description: 'Email address, phone number, place or search query to open the app with.' },
+      },
+      required: ['appName'],
+    },
+  },
+  label: 'Open other apps',
+  runningText: ({ appName }) => `Opening ${APP_NAMES[String(appName).toLowerCase()] || appName}...`,
+  describeAction: ({ appName, query }) => {
+    const name = String(appName).toLowerCase();
+    const uri = applicationUri(name, query ? String(query) : '');
+    return uri ? `Open ${APP_NAMES[name]}: ${uri}` : `Open ${appName}`;
+  },
+  execute: async ({ appName, query }) => {
+    const name = String(appName).toLowerCase();
+    const uri = applicationUri(name, query ? String(query) : '');
+    if (!uri) {
+      throw new Error(`Unsupported app name: ${appName}`);
+    }
+    // Web links get their own tab so the chat keeps running; protocol handlers such as mailto:
+    // and tel: hand off to another app and leave this page where it is.
+    if (/^https?:/i.test(uri)) {
+      window.open(uri, '_blank', 'noopener');
+    } else {
+      window.open(uri, '_self');
+    }
+    return {
+      display: { text: `Opened ${APP_NAMES[name]}${query ? ` for "${query}"` : ''}.` },
+      response: { status: 'opened', appName: name },
+    };
+  },
+};
+
+const generateImage: ChatTool = {
+  declaration: {
+    name: 'generateImage',
+    description: 'Generates an image from a text description.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        prompt: { type: Type.STRING, description: 'A detailed description of the image.' },
+        aspectRatio: { type: Type.STRING, description: 'One of: 1:1, 3:4, 4:3, 9:16, 16:9.' },
+      },
+      required: ['prompt'],
+    },
+  },
+  label: 'Generate images',
+  runningText: ({ prompt }) => `Generating an image of "${prompt}"...`,
+  execute: async ({ prompt, aspectRatio }) => {
+    const imageUrl = await modelProvider.generateImage(String(prompt), aspectRatio ? String(aspectRatio) : '1:1');
+    return {
+      display: { text: `Here is the image of "${prompt}":`, generatedImage: imageUrl },
+      response: { status: 'The image was generated and is shown to the user.' },
+    };
+  },
+};
+
+const solveComplexTask: ChatTool = {
+  declaration: {
+    name: 'solveComplexTask',
+    description: 'Hands a problem that needs deep, multi-step reasoning to a more capable thinking model.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        prompt: { type: Type.STRING, description: 'The full problem statement.' },
+      },
+      required: ['prompt'],
+    },
+  },
+  label: 'Solve complex tasks',
+  runningText: ({ prompt }) => `Thinking about your request: "${prompt}"...`,
+  execute: async ({ prompt }) => {
+    const response = await modelProvider.generateComplexText(String(prompt));
+    const answer = response.text || '';
+    return {
+      display: { text: answer },
+      response: { answer, note: 'This answer is already shown to the user; do not repeat it.' },
+    };
+  },
+};
+
+export const BUILT_IN_TOOLS: ChatTool[] = [openApplication, generateImage, solveComplexTask];
@@ -0,0 +1,51 @@
+interface LanguageInfo {
+  label: string;
+  extension: string;
+  aliases?: string[];
+}
+
+// Keyed by the highlight.js language name.
+const LANGUAGES: Record<string, LanguageInfo> = {
+  javascript: { label: 'JavaScript', extension: 'js', aliases: ['js', 'jsx', 'mjs', 'node'] },
+  typescript: { label: 'TypeScript', extension: 'ts', aliases: ['ts', 'tsx'] },
+  python: { label: 'Python', extension: 'py', aliases: ['py', 'python3'] },
+  html: { label: 'HTML', extension: 'html', aliases: ['htm', 'xhtml'] },
+  xml: { label: 'XML', extension: 'xml', aliases: ['svg'] },
+  css: { label: 'CSS', extension: 'css' },
+  scss: { label: 'SCSS', extension: 'scss' },
+  json: { label: 'JSON', extension: 'json' },
+  yaml: { label: 'YAML', extension: 'yaml', aliases: ['yml'] },
+  markdown: { label: 'Markdown', extension: 'md', aliases: ['md'] },
+  bash: { label: 'Bash', extension: 'sh', aliases: ['sh', 'shell', 'zsh', 'console'] },
+  sql: { label: 'SQL', extension: 'sql' },
+  java: { label: 'Java', extension: 'java' },
+  kotlin: { label: 'Kotlin', extension: 'kt', aliases: ['kt'] },
+  c: { label: 'C', extension: 'c', aliases: ['h'] },
+  cpp: { label: 'C++', extension: 'cpp', aliases: ['c++', 'cc', 'hpp'] },
+  csharp: { label: 'C#', extension: 'cs', aliases: ['cs', 'c#'] },
+  go: { label: 'Go', extension: 'go', aliases: ['golang'] },
+  rust: { label: 'Rust', extension: 'rs', aliases: ['rs'] },
+  ruby: { label: 'Ruby', extension: 'rb', aliases: ['rb'] },
+  php: { label: 'PHP', extension: 'php' },
+  swift: { label: 'Swift', extension: 'swift' },
+};
+
+const ALIASES: Record<string, string> = Object.entries(LANGUAGES).reduce((map, [name, info]) => {
+  map[name] = name;
+  info.aliases?.forEach(alias => { map[alias] = name; });
+  return map;
+}, {} as Record<string, string>);
+
+// Turns a fence info string ("JS", "python {linenos}") into a canonical language name, or
+// returns the lower-cased first word unchanged if it isn't one we know.
+export const normalizeLanguage = (info?: string): string | undefined => {
+  const word = info?.trim().split(/\s+/)[0]?.toLowerCase();
+  if (!word) return undefined;
+  return ALIASES[word] || word;
+};
+
+export const getLanguageLabel = (language?: string): string =>
+  (language && LANGUAGES[language]?.label) || language || 'Code';
+
+export const getFileExtension = (language?: string): string =>
+  (language && LANGUAGES[language]?.extension) || 'txt';
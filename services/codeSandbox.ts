@@ -0,0 +1,50 @@
+// Runs JavaScript and HTML snippets from chat in an iframe with `sandbox="allow-scripts"` and no
+// `allow-same-origin`, so the code gets an opaque origin and can't touch the app, its storage
+// or its cookies. The only way out is postMessage, which we use to forward console output.
+
+export const SANDBOX_MESSAGE_SOURCE = 'intellecto-sandbox';
+
+export type SandboxLogLevel = 'log' | 'info' | 'warn' | 'error';
+
+export interface SandboxLogEntry {
+  level: SandboxLogLevel;
+  text: string;
+}
+
+export const isRunnableLanguage = (language?: string): language is 'javascript' | 'html' =>
+  language === 'javascript' || language === 'html';
+
+// JSON.stringify doesn't escape "<", so a literal "</script>" in the snippet would end our tag.
+const toScriptLiteral = (value: string) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+const consoleBridge = (runId: string) => `<script>
+(function () {
+  var post = function (level, args) {
+    var text = Array.prototype.map.call(args, function (arg) {
+      if (arg instanceof Error) return arg.stack || String(arg);
+      if (typeof arg === 'object') { try { return JSON.stringify(arg, null, 2); } catch (e) { return String(arg); } }
+      return String(arg);
+    }).join(' ');
+    parent.postMessage({ source: ${toScriptLiteral(SANDBOX_MESSAGE_SOURCE)}, runId: ${toScriptLiteral(runId)}, level: level, text: text }, '*');
+  };
+  ['log', 'info', 'warn', 'error'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () { post(level, arguments); original.apply(console, arguments); };
+  });
+  window.addEventListener('error', function (event) { post('error', [event.message]); });
+  window.addEventListener('unhandledrejection', function (event) { post('error', ['Unhandled rejection: ' + String(event.reason)]); });
+})();
+</script>`;
+
+export const buildSandboxDocument = (code: string, language: 'javascript' | 'html', runId: string): string => {
+  if (language === 'html') {
+    // Put the bridge first so it sees console calls from the snippet's own scripts.
+    return /<head[^>]*>/i.test(code)
+      ? code.replace(/<head[^>]*>/i, match => `${match}${consoleBridge(runId)}`)
+      : `${consoleBridge(runId)}${code}`;
+  }
+  // Indirect eval runs the snippet in global scope and turns syntax errors into catchable ones.
+  return `<!DOCTYPE html><html><head>${consoleBridge(runId)}</head><body><script>
+try { (0, eval)(${toScriptLiteral(code)}); } catch (error) { console.error(error); }
+</script></body></html>`;
+};
@@ -0,0 +1,82 @@
+import { GenerateContentResponse } from '@google/genai';
+
+// Helpers for the complex task workspace: thinking budgets, and splitting the streamed
+// thoughts and answer into steps and sections.
+
+export interface ThinkingBudget {
+  id: string;
+  label: string;
+  tokens: number; // -1 lets the model decide
+  description: string;
+}
+
+export const THINKING_BUDGETS: ThinkingBudget[] = [
+  { id: 'auto', label: 'Automatic', tokens: -1, description: 'The model decides how long to think.' },
+  { id: 'light', label: 'Light', tokens: 2048, description: 'Quick reasoning for moderately hard questions.' },
+  { id: 'standard', label: 'Standard', tokens: 8192, description: 'Room for several steps of analysis.' },
+  { id: 'deep', label: 'Deep', tokens: 32768, description: 'The longest budget, for proofs and hard multi-part problems. Slowest.' },
+];
+
+export const getThinkingBudget = (id: string): ThinkingBudget =>
+  THINKING_BUDGETS.find(budget => budget.id === id) || THINKING_BUDGETS[0];
+
+export interface TextSection {
+  title: string;
+  body: string;
+}
+
+// Splits a chunk into its thought summary text and its answer text.
+export const readChunk = (chunk: GenerateContentResponse): { thought: string, answer: string } => {
+  let thought = '';
+  let answer = '';
+  chunk.candidates?.[0]?.content?.parts?.forEach(part => {
+    if (!part.text) return;
+    if (part.thought) thought += part.text;
+    else answer += part.text;
+  });
+  return { thought, answer };
+};
+
+// Thought summaries come as paragraphs that each open with a bold title, e.g.
+// "**Checking the edge cases**". Each title starts a new step.
+export const splitThoughts = (thoughts: string): TextSection[] => {
+  const steps: TextSection[] = [];
+  thoughts.split('\n').forEach(line => {
+    const title = /^\s*\*\*(.+?)\*\*\s*$/.exec(line)?.[1];
+    if (title) {
+      steps.push({ title, body: '' });
+    } else if (steps.length > 0) {
+      steps[steps.length - 1].body += `${line}\n`;
+    } else if (line.trim()) {
+      steps.push({ title: 'Thinking', body: `${line}\n` });
+    }
+  });
+  return steps.map(step => ({ ...step, body: step.body.trim() }));
+};
+
+// Splits the answer on its "## " headings (see COMPLEX_TASK_SYSTEM_INSTRUCTION). Anything
+// before the first heading, or an answer without headings, becomes its own section.
+export const splitSections = (answer: string): TextSection[] => {
+  const sections: TextSection[] = [];
+  let current: TextSection = { title: 'Answer', body: '' };
+  let isInCodeBlock = false;
+  answer.split('\n').forEach(line => {
+    if (/^\s*```/.test(line)) isInCodeBlock = !isInCodeBlock;
+    const title = isInCodeBlock ? undefined : /^##\s+(.+?)\s*#*\s*$/.exec(line)?.[1];
+    if (title) {
+      if (current.body.trim()) sections.push(current);
+      current = { title, body: '' };
+    } else {
+      current.body += `${line}\n`;
+    }
+  });
+  if (current.body.trim() || sections.length === 0) sections.push(current);
+  return sections.map(section => ({ ...section, body: section.body.trim() }));
+};
+
+export const sectionsToMarkdown = (sections: TextSection[]): string =>
+  sections.map(section => `## ${section.title}\n\n${section.body}`).join('\n\n');
+
+// The whole task as a standalone document, for saving.
+export const taskToMarkdown = (prompt: string, sections: TextSection[]): string =>
+  `# Problem\n\n${prompt.trim()}\n\n${sectionsToMarkdown(sections)}\n`;
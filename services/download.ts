@@ -0,0 +1,19 @@
+// Saves `content` as a file through a temporary link.
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// "png", "jpg" or "svg", from an image data URL.
+export const imageFileExtension = (dataUrl: string) => {
+  const mimeType = /^data:image\/([\w+]+)/.exec(dataUrl)?.[1] || 'png';
+  return mimeType === 'svg+xml' ? 'svg' : mimeType === 'jpeg' ? 'jpg' : mimeType;
+};
+
+// Turns a title into something safe to use as a file name.
+export const toFileName = (title: string, fallback = 'chat') =>
+  title.trim().replace(/[^\w\- ]+/g, '').replace(/\s+/g, '-').slice(0, 60) || fallback;
@@ -0,0 +1,119 @@
+import { BILLING_DOCS_URL } from './apiKey';
+
+// Sorts errors from model calls into the few cases the UI treats differently, and retries
+// the ones that usually go away on their own.
+
+export type ErrorKind = 'quota' | 'billing' | 'auth' | 'safety' | 'network' | 'timeout' | 'server' | 'cancelled' | 'unknown';
+
+export interface ClassifiedError {
+  kind: ErrorKind;
+  isTransient: boolean; // Worth retrying automatically
+  detail: string; // The underlying message, for logs
+}
+
+const TRANSIENT_KINDS: ErrorKind[] = ['network', 'timeout', 'server'];
+
+const ERROR_TEXT: Partial<Record<ErrorKind, string>> = {
+  quota: 'You exceeded your current quota.\n\n*   [Monitor your usage](https://ai.dev/usage?tab=rate-limit)\n*   [Learn more about rate limits](https://ai.google.dev/gemini-api/docs/rate-limits)',
+  billing: `This needs an API key with billing enabled. [Learn about billing](${BILLING_DOCS_URL}).`,
+  auth: 'Your API key was rejected. Check it under "Gemini API key" in the sidebar.',
+  safety: 'The request was blocked by safety filters. Try rephrasing it.',
+  network: "Couldn't reach the server. Check your internet connection and try again.",
+  timeout: 'The request took too long to answer. Please try again.',
+  server: 'The model service is having trouble right now. Please try again in a moment.',
+};
+
+// API errors carry a JSON body such as {"error":{"code":429,"status":"RESOURCE_EXHAUSTED"}},
+// sometimes after a "got status: 429 ..." prefix.
+const parseApiError = (message: string): { code?: number, status?: string, message?: string } => {
+  const start = message.indexOf('{');
+  if (start === -1) return {};
+  try {
+    const parsed = JSON.parse(message.slice(start));
+    return parsed?.error || {};
+  } catch {
+    return {};
+  }
+};
+
+// Reads a field that errors from different sources may or may not have (DOMException has
+// `name` but isn't always an Error; SDK errors add a numeric `status`).
+const fieldOf = (error: unknown, key: 'name' | 'status'): unknown =>
+  typeof error === 'object' && error !== null && key in error ? (error as Record<string, unknown>)[key] : undefined;
+
+const kindOf = (error: unknown, detail: string): ErrorKind => {
+  const name = fieldOf(error, 'name');
+  if (name === 'AbortError') return 'cancelled';
+  const apiError = parseApiError(detail);
+  const errorStatus = fieldOf(error, 'status');
+  const code = apiError.code ?? (typeof errorStatus === 'number' ? errorStatus : undefined);
+  const status = apiError.status || '';
+  const text = `${detail} ${apiError.message || ''}`.toLowerCase();
+
+  // Quota errors also mention billing ("check your plan and billing details"), so they come first.
+  if (code === 429 || status === 'RESOURCE_EXHAUSTED' || text.includes('quota')) return 'quota';
+  if (text.includes('billing') || text.includes('billed')) return 'billing';
+  if (code === 401 || code === 403 || status === 'UNAUTHENTICATED' || status === 'PERMISSION_DENIED'
+    || text.includes('api key not valid') || text.includes('api_key_invalid') || text.includes('requested entity was not found')) {
+    return 'auth';
+  }
+  if (text.includes('safety') || text.includes('blocked') || text.includes('prohibited_content')) return 'safety';
+  if (code === 504 || status === 'DEADLINE_EXCEEDED' || name === 'TimeoutError' || text.includes('timed out') || text.includes('timeout')) {
+    return 'timeout';
+  }
+  if ((code !== undefined && code >= 500) || status === 'INTERNAL' || status === 'UNAVAILABLE' || text.includes('overloaded')) {
+    return 'server';
+  }
+  if (error instanceof TypeError && /fetch|network|load failed/.test(text)) return 'network';
+  if (text.includes('networkerror') || text.includes('err_network') || text.includes('failed to fetch')) return 'network';
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return 'network';
+  return 'unknown';
+};
+
+export const classifyError = (error: unknown): ClassifiedError => {
+  const detail = error instanceof Error ? error.message : String(error);
+  const kind = kindOf(error, detail);
+  return { kind, isTransient: TRANSIENT_KINDS.includes(kind), detail };
+};
+
+// What to tell the user. `fallback` covers errors that don't fit a known kind.
+export const describeError = (error: unknown, fallback: string): string =>
+  ERROR_TEXT[classifyError(error).kind] || fallback;
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  // Removed once the wait is over, so a long-lived signal doesn't collect a listener per call.
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs `operation`, retrying transient failures with exponential backoff and jitter
+// (1s, 2s, 4s... by default). Other errors, and the last transient one, are rethrown.
+export const withRetry = async <T>(operation: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 2, baseDelayMs = 1000, maxDelayMs = 8000, signal, onRetry } = options;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= retries || signal?.aborted || !classifyError(error).isTransient) throw error;
+      const delayMs = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+      onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,213 @@
+import { FunctionCall, FunctionDeclaration, GenerateContentResponse, GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
+import { ChatMessage } from '../types';
+import { GeoLocation, ImageGenerationRequest, ImagePayload, LiveCallbacks, LiveSession, ModelProvider, ProviderChat, ThinkingOptions } from './modelProvider';
+import { LiveVoice } from '../components/App';
+import { LIVE_INPUT_MIME_TYPE } from './liveAudio';
+import { isRecordingFixtures, promptText, recordFixture } from './mockFixtures';
+import { toHistory } from './chatHistory';
+import { getApiKey } from './apiKey';
+import { recordUsage, toTokenUsage } from './usage';
+import {
+  CHAT_MODEL,
+  COMPLEX_TASK_SYSTEM_INSTRUCTION,
+  IMAGE_EDIT_MODEL,
+  IMAGE_MODEL,
+  LIVE_MODEL,
+  LIVE_SYSTEM_INSTRUCTION,
+  THINKING_MODEL,
+  TTS_MODEL,
+  chatSystemInstruction,
+  inpaintInstruction,
+} from './chatConfig';
+
+// The key can change while the app runs (see apiKey), so the client is rebuilt when it does.
+// Every request goes through here rather than a client created once at import time.
+let client: { apiKey: string, ai: GoogleGenAI } | null = null;
+
+const getClient = (): GoogleGenAI => {
+  const apiKey = getApiKey();
+  if (!client || client.apiKey !== apiKey) {
+    client = { apiKey, ai: new GoogleGenAI({ apiKey }) };
+  }
+  return client.ai;
+};
+
+// A free request that fails unless the key is valid.
+export const testApiKey = async (apiKey: string): Promise<void> => {
+  await new GoogleGenAI({ apiKey }).models.countTokens({ model: CHAT_MODEL, contents: 'ping' });
+};
+
+// Chats are created here, rather than from a plain prompt, so that the rebuilt history can
+// carry the images users attached, not just the text.
+const createChat = (history: ChatMessage[], tools: FunctionDeclaration[]): ProviderChat => getClient().chats.create({
+  model: CHAT_MODEL,
+  history: toHistory(history),
+  config: {
+    systemInstruction: chatSystemInstruction(),
+    ...(tools.length > 0 ? { tools: [{ functionDeclarations: tools }] } : {}),
+  },
+});
+
+// Wraps a live chat so that every exchange is saved as a fixture the mock provider can replay.
+const withFixtureRecording = (chat: ProviderChat): ProviderChat => ({
+  sendMessage: async (params) => {
+    const response = await chat.sendMessage(params);
+    recordFixture(promptText(params.message), response.text || '', response.functionCalls);
+    return response;
+  },
+  sendMessageStream: async (params) => {
+    const stream = await chat.sendMessageStream(params);
+    return (async function* (): AsyncGenerator<GenerateContentResponse> {
+      let text = '';
+      const functionCalls: FunctionCall[] = [];
+      for await (const chunk of stream) {
+        text += chunk.text || '';
+        functionCalls.push(...(chunk.functionCalls || []));
+        yield chunk;
+      }
+      recordFixture(promptText(params.message), text, functionCalls);
+    })();
+  },
+});
+
+const streamComplexText = (prompt: string, { thinkingBudget, signal }: ThinkingOptions) => getClient().models.generateContentStream({
+  model: THINKING_MODEL,
+  contents: prompt,
+  config: {
+    systemInstruction: COMPLEX_TASK_SYSTEM_INSTRUCTION,
+    thinkingConfig: { thinkingBudget, includeThoughts: true },
+    abortSignal: signal,
+  },
+});
+
+// Imagen on the Gemini API has no negative prompt setting, so it is folded into the prompt.
+const generateImages = async ({ prompt, negativePrompt, aspectRatio, numberOfImages }: ImageGenerationRequest): Promise<string[]> => {
+  const response = await getClient().models.generateImages({
+    model: IMAGE_MODEL,
+    prompt: negativePrompt?.trim() ? `${prompt}. Avoid: ${negativePrompt.trim()}.` : prompt,
+    config: { numberOfImages, aspectRatio, outputMimeType: 'image/jpeg' },
+  });
+  const images = (response.generatedImages || [])
+    .filter(generated => generated.image?.imageBytes)
+    .map(({ image }) => `data:${image!.mimeType || 'image/jpeg'};base64,${image!.imageBytes}`);
+  if (images.length === 0) {
+    throw new Error('No images were generated. The prompt may have been blocked by safety filters.');
+  }
+  return images;
+};
+
+const generateImage = async (prompt: string, aspectRatio: string): Promise<string> =>
+  (await generateImages({ prompt, aspectRatio, numberOfImages: 1 }))[0];
+
+const summarize = async (text: string): Promise<string> => {
+  const response = await getClient().models.generateContent({
+    model: CHAT_MODEL,
+    contents: `Write a short title, at most six words, for a chat that starts like this. Reply with the title only, without quotes.\n\n${text}`,
+  });
+  return (response.text || '').trim().replace(/^["']|["']$/g, '') || 'New Chat';
+};
+
+const generateComplexText = (prompt: string) => getClient().models.generateContent({
+  model: THINKING_MODEL,
+  contents: prompt,
+  config: { thinkingConfig: { thinkingBudget: 32768 } },
+});
+
+const combineImages = async (prompt: string, images: ImagePayload[]): Promise<string> => {
+  const response = await getClient().models.generateContent({
+    model: IMAGE_EDIT_MODEL,
+    contents: {
+      parts: [
+        ...images.map(({ base64, mimeType }) => ({ inlineData: { data: base64, mimeType } })),
+        { text: prompt },
+      ],
+    },
+    config: { responseModalities: [Modality.IMAGE] },
+  });
+  // Callers only get the image back, so the tokens are logged here.
+  recordUsage('imageEdit', toTokenUsage(response.usageMetadata));
+  const image = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData;
+  if (!image) {
+    throw new Error('No image was generated. The request may have been blocked by safety filters.');
+  }
+  return `data:${image.mimeType || 'image/png'};base64,${image.data}`;
+};
+
+// The image model takes no separate mask input, so the mask goes along as a second image
+// and the instruction explains what it means.
+const inpaintImage = (prompt: string, image: ImagePayload, mask: ImagePayload): Promise<string> =>
+  combineImages(inpaintInstruction(prompt), [image, mask]);
+
+const generateGroundedText = (prompt: string, useMaps: boolean, location?: GeoLocation) => getClient().models.generateContent({
+  model: CHAT_MODEL,
+  contents: prompt,
+  config: {
+    tools: useMaps ? [{ googleSearch: {} }, { googleMaps: {} }] : [{ googleSearch: {} }],
+    ...(useMaps && location ? { toolConfig: { retrievalConfig: { latLng: location } } } : {}),
+  },
+});
+
+const textToSpeech = async (text: string, voice: LiveVoice): Promise<string> => {
+  const response = await getClient().models.generateContent({
+    model: TTS_MODEL,
+    contents: [{ parts: [{ text }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } },
+    },
+  });
+  recordUsage('tts', toTokenUsage(response.usageMetadata));
+  const audio = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData?.data;
+  if (!audio) throw new Error('No audio was generated.');
+  return audio;
+};
+
+const connectLive = async (voice: LiveVoice, callbacks: LiveCallbacks): Promise<LiveSession> => {
+  const session = await getClient().live.connect({
+    model: LIVE_MODEL,
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } },
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
+      systemInstruction: LIVE_SYSTEM_INSTRUCTION,
+    },
+    callbacks: {
+      onmessage: (message: LiveServerMessage) => {
+        const content = message.serverContent;
+        if (!content) return;
+        if (content.inputTranscription?.text) callbacks.onInputTranscript(content.inputTranscription.text);
+        if (content.outputTranscription?.text) callbacks.onOutputTranscript(content.outputTranscription.text);
+        content.modelTurn?.parts?.forEach(part => {
+          if (part.inlineData?.data) callbacks.onAudio(part.inlineData.data);
+        });
+        if (content.interrupted) callbacks.onInterrupted();
+        if (content.turnComplete) callbacks.onTurnComplete();
+      },
+      onerror: (event: ErrorEvent) => callbacks.onError(new Error(event.message || 'The live connection failed.')),
+      onclose: () => callbacks.onClose(),
+    },
+  });
+  return {
+    sendAudio: (data) => session.sendRealtimeInput({ media: { data, mimeType: LIVE_INPUT_MIME_TYPE } }),
+    close: () => session.close(),
+  };
+};
+
+export const geminiProvider: ModelProvider = {
+  id: 'gemini',
+  startChat: (history, tools = []) => {
+    const chat = createChat(history, tools);
+    return isRecordingFixtures() ? withFixtureRecording(chat) : chat;
+  },
+  summarize,
+  generateImage,
+  generateImages,
+  generateComplexText,
+  streamComplexText,
+  combineImages,
+  inpaintImage,
+  generateGroundedText,
+  textToSpeech,
+  connectLive,
+};
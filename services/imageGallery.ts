@@ -0,0 +1,93 @@
+import { blobToDataUrl, dataUrlToBlob, GENERATIONS_STORE, openDatabase, requestToPromise, transactionDone } from './sessionStore';
+
+// Settings and results of the image generator, kept in IndexedDB so the gallery survives
+// reloads. Images are stored as Blobs and handed out as data URLs, like chat images.
+
+export interface StylePreset {
+  id: string;
+  label: string;
+  prompt: string; // Appended to the user's prompt; empty for no particular style
+}
+
+export const STYLE_PRESETS: StylePreset[] = [
+  { id: 'none', label: 'No style', prompt: '' },
+  { id: 'photo', label: 'Photo', prompt: 'photorealistic photograph, natural lighting, sharp focus' },
+  { id: 'cinematic', label: 'Cinematic', prompt: 'cinematic still, dramatic lighting, shallow depth of field, film grain' },
+  { id: 'illustration', label: 'Illustration', prompt: 'digital illustration, clean lines, vibrant colors' },
+  { id: 'anime', label: 'Anime', prompt: 'anime style, cel shading, expressive characters' },
+  { id: 'watercolor', label: 'Watercolor', prompt: 'watercolor painting, soft washes, visible paper texture' },
+  { id: '3d', label: '3D render', prompt: '3D render, soft global illumination, high detail' },
+  { id: 'pixel', label: 'Pixel art', prompt: 'pixel art, limited palette, crisp pixels' },
+  { id: 'sketch', label: 'Pencil sketch', prompt: 'pencil sketch, cross-hatching, monochrome' },
+];
+
+export const ASPECT_RATIOS = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+export const MAX_IMAGES_PER_GENERATION = 4;
+
+export interface GenerationSettings {
+  prompt: string;
+  negativePrompt: string;
+  styleId: string;
+  aspectRatio: string;
+  numberOfImages: number;
+}
+
+export interface ImageGeneration extends GenerationSettings {
+  id: string;
+  createdAt: number;
+  images: string[]; // Data URLs
+}
+
+interface GenerationRecord extends Omit<ImageGeneration, 'images'> {
+  images: Blob[];
+}
+
+export const DEFAULT_SETTINGS: GenerationSettings = {
+  prompt: '',
+  negativePrompt: '',
+  styleId: 'none',
+  aspectRatio: '1:1',
+  numberOfImages: 1,
+};
+
+export const getStylePreset = (id: string): StylePreset =>
+  STYLE_PRESETS.find(preset => preset.id === id) || STYLE_PRESETS[0];
+
+// The prompt actually sent to the model: the user's words followed by the style's.
+export const buildImagePrompt = ({ prompt, styleId }: GenerationSettings): string => {
+  const style = getStylePreset(styleId).prompt;
+  return style ? `${prompt.trim()}, ${style}` : prompt.trim();
+};
+
+const toRecord = ({ images, ...generation }: ImageGeneration): GenerationRecord => ({
+  ...generation,
+  images: images.map(dataUrlToBlob).filter((blob): blob is Blob => !!blob),
+});
+
+const fromRecord = async ({ images, ...generation }: GenerationRecord): Promise<ImageGeneration> => ({
+  ...generation,
+  images: await Promise.all(images.map(blobToDataUrl)),
+});
+
+// Newest first.
+export const loadGallery = async (): Promise<ImageGeneration[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(GENERATIONS_STORE, 'readonly');
+  const records = await requestToPromise(transaction.objectStore(GENERATIONS_STORE).getAll() as IDBRequest<GenerationRecord[]>);
+  const generations = await Promise.all(records.map(fromRecord));
+  return generations.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveGeneration = async (generation: ImageGeneration): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(GENERATIONS_STORE, 'readwrite');
+  transaction.objectStore(GENERATIONS_STORE).put(toRecord(generation));
+  await transactionDone(transaction);
+};
+
+export const deleteGeneration = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(GENERATIONS_STORE, 'readwrite');
+  transaction.objectStore(GENERATIONS_STORE).delete(id);
+  await transactionDone(transaction);
+};
@@ -0,0 +1,189 @@
+// Prepares images before they are attached or uploaded. Each image is decoded with its EXIF
+// orientation applied, scaled down to the configured maximum size, and re-encoded. Because the
+// result is drawn from pixels, none of the original's metadata (camera details, GPS position)
+// carries over. The work runs in a Web Worker where the browser has OffscreenCanvas, and on the
+// page otherwise.
+
+export interface ImageUploadSettings {
+  maxDimension: number; // Longest side in pixels
+  quality: number; // 0-1, for JPEG and WebP
+}
+
+export const MAX_DIMENSION_OPTIONS = [1024, 1536, 2048, 3072];
+
+export const DEFAULT_IMAGE_UPLOAD_SETTINGS: ImageUploadSettings = {
+  maxDimension: 2048,
+  quality: 0.85,
+};
+
+// Formats every current browser can decode. HEIC is left out: only Safari reads it. SVGs, such
+// as the offline placeholders, are drawn out to pixels like the rest.
+export const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/bmp', 'image/avif', 'image/svg+xml'];
+
+const SVG_TYPE = 'image/svg+xml';
+const DEFAULT_SVG_SIZE = 1024; // For SVGs that don't say how big they are
+
+const IMAGE_UPLOAD_SETTINGS_KEY = 'intellecto-image-upload-settings';
+
+export const loadImageUploadSettings = (): ImageUploadSettings => {
+  try {
+    const saved = localStorage.getItem(IMAGE_UPLOAD_SETTINGS_KEY);
+    return saved ? { ...DEFAULT_IMAGE_UPLOAD_SETTINGS, ...JSON.parse(saved) } : DEFAULT_IMAGE_UPLOAD_SETTINGS;
+  } catch (error) {
+    console.warn("Could not load image upload settings:", error);
+    return DEFAULT_IMAGE_UPLOAD_SETTINGS;
+  }
+};
+
+export const saveImageUploadSettings = (settings: ImageUploadSettings) => {
+  try {
+    localStorage.setItem(IMAGE_UPLOAD_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Could not save image upload settings:", error);
+  }
+};
+
+interface PreprocessRequest {
+  id: number;
+  image: Blob;
+  settings: ImageUploadSettings;
+}
+
+type PreprocessResponse = { id: number, image: Blob } | { id: number, error: string };
+
+// Runs as the worker's whole script (see getWorker), so it must not use anything from outside
+// its own body. Photos stay JPEG; everything else becomes WebP, which keeps transparency.
+// Browsers that can't encode WebP return PNG instead.
+function preprocessOffscreen(image: Blob, { maxDimension, quality }: ImageUploadSettings): Promise<Blob> {
+  return createImageBitmap(image, { imageOrientation: 'from-image' }).then(bitmap => {
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    const canvas = new OffscreenCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.convertToBlob({ type: image.type === 'image/jpeg' ? 'image/jpeg' : 'image/webp', quality });
+  });
+}
+
+function workerMain(preprocess: typeof preprocessOffscreen) {
+  self.onmessage = (event: MessageEvent<PreprocessRequest>) => {
+    const { id, image, settings } = event.data;
+    preprocess(image, settings).then(
+      result => self.postMessage({ id, image: result }),
+      error => self.postMessage({ id, error: String(error?.message || error) }),
+    );
+  };
+}
+
+// createImageBitmap doesn't take SVG blobs, and workers have no <img>, so SVGs load on the page.
+const loadSvg = (image: Blob) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const url = URL.createObjectURL(image);
+  const element = new Image();
+  element.onload = () => {
+    URL.revokeObjectURL(url);
+    resolve(element);
+  };
+  element.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('The SVG could not be loaded.'));
+  };
+  element.src = url;
+});
+
+// Same steps for browsers without OffscreenCanvas, and for SVGs, on the page's own thread.
+const preprocessOnPage = async (image: Blob, { maxDimension, quality }: ImageUploadSettings): Promise<Blob> => {
+  const source = image.type === SVG_TYPE ? await loadSvg(image) : await createImageBitmap(image, { imageOrientation: 'from-image' });
+  const width = source.width || DEFAULT_SVG_SIZE;
+  const height = source.height || DEFAULT_SVG_SIZE;
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  if ('close' in source) source.close();
+  return new Promise((resolve, reject) => canvas.toBlob(
+    blob => (blob ? resolve(blob) : reject(new Error('The image could not be encoded.'))),
+    image.type === 'image/jpeg' ? 'image/jpeg' : 'image/webp',
+    quality,
+  ));
+};
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (image: Blob) => void, reject: (error: Error) => void }>();
+
+// Built from a Blob URL so it needs no separate bundle. Null where workers or OffscreenCanvas
+// aren't available, or the worker can't be created (e.g. a CSP without blob: workers).
+const getWorker = (): Worker | null => {
+  if (worker) return worker;
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return null;
+  try {
+    const source = `(${workerMain.toString()})(${preprocessOffscreen.toString()});`;
+    const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+    worker = new Worker(url);
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.warn("Could not start the image worker, preprocessing on the page instead:", error);
+    return null;
+  }
+  worker.onmessage = (event: MessageEvent<PreprocessResponse>) => {
+    const request = pending.get(event.data.id);
+    if (!request) return;
+    pending.delete(event.data.id);
+    if ('error' in event.data) request.reject(new Error(event.data.error));
+    else request.resolve(event.data.image);
+  };
+  // A worker that fails outright fails everything it was given; the next image starts a new one.
+  worker.onerror = (event) => {
+    pending.forEach(request => request.reject(new Error(event.message || 'The image worker failed.')));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+const preprocessInWorker = (image: Blob, settings: ImageUploadSettings) => {
+  const imageWorker = image.type === SVG_TYPE ? null : getWorker();
+  if (!imageWorker) return preprocessOnPage(image, settings);
+  return new Promise<Blob>((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject });
+    imageWorker.postMessage({ id, image, settings } satisfies PreprocessRequest);
+  });
+};
+
+const EXTENSIONS: Record<string, string> = { 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/png': 'png' };
+
+// Returns the prepared image as a File named after the original. Unsupported or unreadable
+// images are rejected with a message that can be shown as is.
+export const preprocessImage = async (file: File, settings = loadImageUploadSettings()): Promise<File> => {
+  if (!SUPPORTED_IMAGE_TYPES.includes(file.type)) {
+    const kind = file.type ? `${file.type.replace(/^image\//, '').toUpperCase()} images` : 'this kind of file';
+    throw new Error(`Can't use ${kind} ("${file.name}"). Please choose a JPEG, PNG, WebP, GIF, BMP, AVIF or SVG image.`);
+  }
+
+  let image: Blob;
+  try {
+    image = await preprocessInWorker(file, settings);
+  } catch (error) {
+    console.error("Could not preprocess image:", error);
+    throw new Error(`"${file.name}" could not be read. The file may be damaged.`);
+  }
+
+  const name = `${file.name.replace(/\.[^.]+$/, '') || 'image'}.${EXTENSIONS[image.type] || 'png'}`;
+  return new File([image], name, { type: image.type, lastModified: file.lastModified });
+};
+
+// Prepares several files at once. One bad file doesn't stop the others; its message is
+// returned with the files that did work.
+export const preprocessImages = async (files: File[]): Promise<{ files: File[], errors: string[] }> => {
+  const results = await Promise.allSettled(files.map(file => preprocessImage(file)));
+  return {
+    files: results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : [])),
+    errors: results.flatMap(result => (result.status === 'rejected' ? [(result.reason as Error).message] : [])),
+  };
+};
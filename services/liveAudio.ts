@@ -0,0 +1,118 @@
+import { decode, decodeAudioData } from './geminiService';
+
+// Microphone capture and gapless playback for live voice sessions. Live models take 16kHz
+// PCM in and send 24kHz PCM back.
+
+export const LIVE_INPUT_SAMPLE_RATE = 16000;
+export const LIVE_OUTPUT_SAMPLE_RATE = 24000;
+export const LIVE_INPUT_MIME_TYPE = `audio/pcm;rate=${LIVE_INPUT_SAMPLE_RATE}`;
+
+// 2048 samples at 16kHz: a chunk every 128ms.
+const CAPTURE_BUFFER_SIZE = 2048;
+
+const encodeBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+export const encodePcm16 = (samples: Float32Array): string => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return encodeBase64(new Uint8Array(pcm.buffer));
+};
+
+const rootMeanSquare = (samples: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+};
+
+// Streams microphone audio as base64 PCM chunks along with their loudness (0 to 1).
+// Resolves with a function that stops capturing and releases the microphone.
+export const startMicrophone = async (onChunk: (base64Pcm: string, level: number) => void): Promise<() => void> => {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+  });
+  const context = new AudioContext({ sampleRate: LIVE_INPUT_SAMPLE_RATE });
+  const source = context.createMediaStreamSource(stream);
+  // ScriptProcessorNode is deprecated but, unlike an AudioWorklet, needs no separate module file.
+  const processor = context.createScriptProcessor(CAPTURE_BUFFER_SIZE, 1, 1);
+  processor.onaudioprocess = (event) => {
+    const samples = event.inputBuffer.getChannelData(0);
+    onChunk(encodePcm16(samples), Math.min(1, rootMeanSquare(samples) * 4));
+  };
+  source.connect(processor);
+  processor.connect(context.destination);
+
+  return () => {
+    processor.onaudioprocess = null;
+    processor.disconnect();
+    source.disconnect();
+    stream.getTracks().forEach(track => track.stop());
+    context.close().catch(() => {});
+  };
+};
+
+export interface PcmPlayer {
+  play: (base64Pcm: string) => void;
+  stop: () => void; // Drops everything queued, e.g. when the user barges in
+  close: () => void;
+}
+
+// Queues reply audio back to back so chunks play without gaps. `onIdle` runs whenever the
+// queue runs dry.
+export const createPcmPlayer = (onIdle: () => void): PcmPlayer => {
+  const context = new AudioContext({ sampleRate: LIVE_OUTPUT_SAMPLE_RATE });
+  const sources = new Set<AudioBufferSourceNode>();
+  let nextStartTime = 0;
+  // Chunks decode asynchronously; bumping this discards ones still decoding after a stop.
+  let generation = 0;
+
+  const play = async (base64Pcm: string) => {
+    const playGeneration = generation;
+    if (context.state === 'suspended') await context.resume();
+    const buffer = await decodeAudioData(decode(base64Pcm), context, LIVE_OUTPUT_SAMPLE_RATE, 1);
+    if (playGeneration !== generation) return;
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    nextStartTime = Math.max(nextStartTime, context.currentTime);
+    source.start(nextStartTime);
+    nextStartTime += buffer.duration;
+    sources.add(source);
+    source.onended = () => {
+      sources.delete(source);
+      if (sources.size === 0) onIdle();
+    };
+  };
+
+  const stop = () => {
+    generation++;
+    sources.forEach(source => {
+      source.onended = null;
+      source.stop();
+    });
+    sources.clear();
+    nextStartTime = 0;
+    onIdle();
+  };
+
+  return {
+    play: (base64Pcm) => {
+      play(base64Pcm).catch(error => console.error("Could not play live audio:", error));
+    },
+    stop,
+    close: () => {
+      stop();
+      context.close().catch(() => {});
+    },
+  };
+};
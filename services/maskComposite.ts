@@ -0,0 +1,43 @@
+// Inpainting only asks the model to keep to the painted area; nothing makes it. So the result
+// is laid back over the original through the mask here, and outside the painted area the
+// original's own pixels are what the user gets.
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('An image could not be loaded for compositing.'));
+  image.src = src;
+});
+
+// `mask` is MaskEditor's white-on-black PNG. The result is scaled to the original's size, and
+// the mask's grey edges blend the two so the seam isn't hard. Returns a base64 data URL, JPEG
+// when the original was one and PNG otherwise.
+export const compositeThroughMask = async (original: string, result: string, mask: string): Promise<string> => {
+  const [originalImage, resultImage, maskImage] = await Promise.all([loadImage(original), loadImage(result), loadImage(mask)]);
+  const width = originalImage.naturalWidth;
+  const height = originalImage.naturalHeight;
+
+  const layer = document.createElement('canvas');
+  layer.width = width;
+  layer.height = height;
+  const layerCtx = layer.getContext('2d', { willReadFrequently: true })!;
+  layerCtx.drawImage(maskImage, 0, 0, width, height);
+  const maskPixels = layerCtx.getImageData(0, 0, width, height).data;
+  layerCtx.clearRect(0, 0, width, height);
+  layerCtx.imageSmoothingQuality = 'high';
+  layerCtx.drawImage(resultImage, 0, 0, width, height);
+  const edited = layerCtx.getImageData(0, 0, width, height);
+  // The mask is greyscale, so its red channel says how much of the result to keep.
+  for (let i = 0; i < edited.data.length; i += 4) {
+    edited.data[i + 3] = (edited.data[i + 3] * maskPixels[i]) / 255;
+  }
+  layerCtx.putImageData(edited, 0, 0);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(originalImage, 0, 0);
+  ctx.drawImage(layer, 0, 0);
+  return original.startsWith('data:image/jpeg') ? canvas.toDataURL('image/jpeg', 0.92) : canvas.toDataURL('image/png');
+};
@@ -0,0 +1,125 @@
+import { ChatMessage, ChatSession } from '../types';
+
+// A session's messages form a tree: every message except the first points at the message it
+// follows through `parentId`. Editing a user message adds a sibling instead of overwriting,
+// and `session.activeBranches` records which child is shown under each parent. Anything
+// that talks to the model works on the active path from the root to the newest leaf.
+
+export interface BranchInfo {
+  index: number;
+  count: number;
+}
+
+const groupChildren = (messages: ChatMessage[]) => {
+  const children = new Map<string, ChatMessage[]>();
+  messages.forEach(message => {
+    if (!message.parentId) return;
+    const siblings = children.get(message.parentId) || [];
+    siblings.push(message);
+    children.set(message.parentId, siblings);
+  });
+  return children;
+};
+
+export const getActivePath = (session: ChatSession): ChatMessage[] => {
+  const root = session.messages.find(message => !message.parentId);
+  if (!root) return [];
+
+  const children = groupChildren(session.messages);
+  const path = [root];
+  let current = root;
+  for (;;) {
+    const siblings = children.get(current.id);
+    if (!siblings?.length) break;
+    const selectedId = session.activeBranches?.[current.id];
+    // Without an explicit choice, follow the most recently added child.
+    current = siblings.find(message => message.id === selectedId) || siblings[siblings.length - 1];
+    path.push(current);
+  }
+  return path;
+};
+
+export const getSiblings = (session: ChatSession, messageId: string): ChatMessage[] => {
+  const message = session.messages.find(m => m.id === messageId);
+  if (!message?.parentId) return message ? [message] : [];
+  return session.messages.filter(m => m.parentId === message.parentId);
+};
+
+// Position among siblings for every message on `path` that has alternatives.
+export const getBranchInfo = (session: ChatSession, path: ChatMessage[]): Record<string, BranchInfo> => {
+  const children = groupChildren(session.messages);
+  const info: Record<string, BranchInfo> = {};
+  path.forEach(message => {
+    const siblings = message.parentId ? children.get(message.parentId) : undefined;
+    if (siblings && siblings.length > 1) {
+      info[message.id] = { index: siblings.findIndex(m => m.id === message.id), count: siblings.length };
+    }
+  });
+  return info;
+};
+
+export const selectBranch = (session: ChatSession, messageId: string): ChatSession => {
+  const message = session.messages.find(m => m.id === messageId);
+  if (!message?.parentId) return session;
+  return { ...session, activeBranches: { ...session.activeBranches, [message.parentId]: message.id } };
+};
+
+// Selects every branch on the way from the root to `messageId`, so that message is on the
+// active path.
+export const revealMessage = (session: ChatSession, messageId: string): ChatSession => {
+  const byId = new Map(session.messages.map(message => [message.id, message]));
+  const activeBranches = { ...session.activeBranches };
+  let current = byId.get(messageId);
+  if (!current) return session;
+  while (current.parentId) {
+    activeBranches[current.parentId] = current.id;
+    const parent = byId.get(current.parentId);
+    if (!parent) break;
+    current = parent;
+  }
+  return { ...session, activeBranches };
+};
+
+// Replaces a message with the same ID, or adds it as the active child of its parent.
+export const upsertMessage = (session: ChatSession, message: ChatMessage): ChatSession => {
+  const index = session.messages.findIndex(m => m.id === message.id);
+  if (index !== -1) {
+    const messages = [...session.messages];
+    messages[index] = message;
+    return { ...session, messages };
+  }
+  return selectBranch({ ...session, messages: [...session.messages, message] }, message.id);
+};
+
+// Removes a message together with everything that branches off it.
+export const removeMessage = (session: ChatSession, messageId: string): ChatSession => {
+  const children = groupChildren(session.messages);
+  const removed = new Set<string>();
+  const queue = [messageId];
+  while (queue.length > 0) {
+    const id = queue.pop()!;
+    removed.add(id);
+    children.get(id)?.forEach(child => queue.push(child.id));
+  }
+
+  const activeBranches = { ...session.activeBranches };
+  Object.keys(activeBranches).forEach(parentId => {
+    if (removed.has(parentId) || removed.has(activeBranches[parentId])) {
+      delete activeBranches[parentId];
+    }
+  });
+  return { ...session, activeBranches, messages: session.messages.filter(m => !removed.has(m.id)) };
+};
+
+// Links a flat, ordered message list into a single chain.
+export const linkAsChain = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.map((message, index) => (index === 0 ? message : { ...message, parentId: messages[index - 1].id }));
+
+// Whether Regenerate (Retry, on errors) applies to `message`, given the message it follows.
+// That's the model's reply to a prompt, and the error that ended such a turn: App marks both
+// with `isTurnReply`. Help and timer replies, tool results and answers copied in from Complex
+// Task have no model turn behind them, so asking "again" would re-run an unrelated earlier prompt.
+export const canRegenerate = (message: ChatMessage, parent?: ChatMessage): boolean => {
+  if (message.role !== 'model' || message.isStreaming || !message.isTurnReply || !parent) return false;
+  return !!message.isError || parent.role === 'user';
+};
@@ -0,0 +1,107 @@
+import { FunctionCall, SendMessageParameters } from '@google/genai';
+
+// A canned reply for the mock provider. `match` is compared case-insensitively against the
+// prompt: recorded fixtures must match the whole prompt, canned ones only need to contain it.
+export interface MockFixture {
+  match: string;
+  text: string;
+  functionCalls?: FunctionCall[];
+}
+
+const RECORDED_FIXTURES_KEY = 'intellecto-mock-fixtures';
+const RECORDING_FLAG_KEY = 'intellecto-record-fixtures';
+
+export const CANNED_FIXTURES: MockFixture[] = [
+  {
+    match: 'hello',
+    text: 'Hello! This is Intellecto running on the offline mock provider. Every reply you see here is canned, so no API key or network is needed.',
+  },
+  {
+    match: 'paris',
+    text: 'For three days in Paris:\n\n*   **Day 1**: the Louvre and a walk along the Seine.\n*   **Day 2**: the Eiffel Tower and the Champ de Mars.\n*   **Day 3**: Montmartre and the Sacré-Cœur.',
+  },
+  {
+    match: 'python',
+    text: 'Here is a small script:\n\n```python\nimport requests\nfrom bs4 import BeautifulSoup\n\nhtml = requests.get("https://example.com/news").text\nfor headline in BeautifulSoup(html, "html.parser").select("h2"):\n    print(headline.get_text(strip=True))\n```',
+  },
+  {
+    match: 'image of',
+    text: 'Sure, generating that image now.',
+    functionCalls: [{ name: 'generateImage', args: { prompt: 'a mock landscape', aspectRatio: '16:9' } }],
+  },
+  {
+    match: 'maps',
+    text: 'Opening Maps for you.',
+    functionCalls: [{ name: 'openApplication', args: { appName: 'maps', query: 'nearest park' } }],
+  },
+  {
+    match: 'two pictures',
+    text: 'Making both pictures at once.',
+    functionCalls: [
+      { id: 'mock-call-1', name: 'generateImage', args: { prompt: 'a mock sunrise', aspectRatio: '1:1' } },
+      { id: 'mock-call-2', name: 'generateImage', args: { prompt: 'a mock sunset', aspectRatio: '1:1' } },
+    ],
+  },
+  {
+    match: 'timer',
+    text: 'Starting your timer.',
+    functionCalls: [{ name: 'setTimer', args: { durationSeconds: 600, label: 'Mock timer' } }],
+  },
+  {
+    match: 'wake me',
+    text: 'I\'ll wake you up.',
+    functionCalls: [{ name: 'setAlarm', args: { time: '07:30', label: 'Wake up' } }],
+  },
+  {
+    match: 'complex',
+    text: 'Let me think this one through.',
+    functionCalls: [{ name: 'solveComplexTask', args: { prompt: 'a complex mock task' } }],
+  },
+];
+
+export const loadRecordedFixtures = (): MockFixture[] => {
+  try {
+    const saved = localStorage.getItem(RECORDED_FIXTURES_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.warn("Could not load recorded fixtures:", error);
+    return [];
+  }
+};
+
+export const isRecordingFixtures = (): boolean => {
+  try {
+    return localStorage.getItem(RECORDING_FLAG_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+export const setRecordingFixtures = (enabled: boolean) => {
+  localStorage.setItem(RECORDING_FLAG_KEY, String(enabled));
+};
+
+// Saves a live exchange, replacing any earlier recording for the same prompt.
+export const recordFixture = (prompt: string, text: string, functionCalls?: FunctionCall[]) => {
+  if (!prompt) return;
+  const fixture: MockFixture = { match: prompt, text, ...(functionCalls?.length ? { functionCalls } : {}) };
+  const fixtures = loadRecordedFixtures().filter(f => f.match.toLowerCase() !== prompt.toLowerCase());
+  try {
+    localStorage.setItem(RECORDED_FIXTURES_KEY, JSON.stringify([...fixtures, fixture]));
+  } catch (error) {
+    console.warn("Could not save recorded fixture:", error);
+  }
+};
+
+// Flattens a chat message into the plain text fixtures are keyed on.
+export const promptText = (message: SendMessageParameters['message']): string => {
+  if (typeof message === 'string') return message;
+  const parts = Array.isArray(message) ? message : [message];
+  return parts.map(part => (typeof part === 'string' ? part : part.text || '')).join(' ').trim();
+};
+
+export const findFixture = (prompt: string): MockFixture | undefined => {
+  const normalized = prompt.trim().toLowerCase();
+  return loadRecordedFixtures().find(f => f.match.trim().toLowerCase() === normalized)
+    || CANNED_FIXTURES.find(f => normalized.includes(f.match));
+};
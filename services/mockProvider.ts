@@ -0,0 +1,217 @@
+import { Candidate, FunctionCall, FunctionResponse, GenerateContentResponse, Part, SendMessageParameters } from '@google/genai';
+import { LiveCallbacks, LiveSession, ModelProvider, ProviderChat, ThinkingOptions } from './modelProvider';
+import { findFixture, promptText } from './mockFixtures';
+
+const MOCK_CHUNK_DELAY_MS = 25;
+
+// 0.25s of silent 16-bit PCM at 24kHz: 12000 zero bytes encode to exactly 16000 'A's.
+const SILENT_AUDIO_B64 = 'A'.repeat(16000);
+
+const toResponse = (text: string, functionCalls: FunctionCall[] = [], extra: Partial<Candidate> = {}): GenerateContentResponse => {
+  const parts: Part[] = [];
+  if (text) parts.push({ text });
+  functionCalls.forEach(functionCall => parts.push({ functionCall }));
+  const response = new GenerateContentResponse();
+  response.candidates = [{ content: { role: 'model', parts }, ...extra }];
+  return response;
+};
+
+const toThoughtResponse = (text: string): GenerateContentResponse => {
+  const response = new GenerateContentResponse();
+  response.candidates = [{ content: { role: 'model', parts: [{ text, thought: true }] } }];
+  return response;
+};
+
+// About four characters to a token, so the usage panel has something to show offline.
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const withUsage = (response: GenerateContentResponse, prompt: string, reply: string, thoughts = ''): GenerateContentResponse => {
+  const promptTokenCount = estimateTokens(prompt);
+  const candidatesTokenCount = estimateTokens(reply);
+  const thoughtsTokenCount = estimateTokens(thoughts);
+  response.usageMetadata = {
+    promptTokenCount,
+    candidatesTokenCount,
+    thoughtsTokenCount,
+    totalTokenCount: promptTokenCount + candidatesTokenCount + thoughtsTokenCount,
+  };
+  return response;
+};
+
+const functionResponsesIn = (message: SendMessageParameters['message']): FunctionResponse[] => {
+  const parts = Array.isArray(message) ? message : [message];
+  return parts.flatMap(part => (typeof part !== 'string' && part.functionResponse ? [part.functionResponse] : []));
+};
+
+// What the mock says once its tool calls have been answered.
+const followUpFor = (responses: FunctionResponse[]) => {
+  const failed = responses.filter(response => response.response?.error);
+  if (failed.length > 0) {
+    return `Sorry, ${failed.map(response => response.name).join(' and ')} didn't work this time.`;
+  }
+  return `All done: ${responses.map(response => response.name).join(', ')} finished.`;
+};
+
+const replyFor = (message: SendMessageParameters['message']): { text: string, functionCalls?: FunctionCall[] } => {
+  const responses = functionResponsesIn(message);
+  if (responses.length > 0) {
+    return { text: followUpFor(responses) };
+  }
+  const prompt = promptText(message);
+  const fixture = findFixture(prompt);
+  if (fixture) return fixture;
+  return {
+    text: `I'm the offline mock provider, so I can't really answer "${prompt}". Set GEMINI_API_KEY to talk to a real model.`,
+  };
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  // Removed once the wait is over, so a long-lived signal doesn't collect a listener per call.
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const hashString = (value: string) => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, ch => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[ch]!));
+
+// A solid-colour SVG labelled with the prompt; the colour is derived from the prompt so
+// the same request always produces the same picture.
+const placeholderImage = (label: string, aspectRatio = '1:1') => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const width = 512;
+  const height = Math.round(width * (h || 1) / (w || 1));
+  const hue = hashString(label) % 360;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">`
+    + `<rect width="100%" height="100%" fill="hsl(${hue}, 45%, 35%)"/>`
+    + `<text x="50%" y="50%" fill="white" font-family="sans-serif" font-size="20" text-anchor="middle" dominant-baseline="middle">${escapeXml(label.slice(0, 60))}</text>`
+    + `</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+// Canned thought summaries and a sectioned answer, streamed the way the thinking model does.
+const streamComplexText = async (prompt: string, { thinkingBudget, signal }: ThinkingOptions) => {
+  const thoughts = [
+    `**Reading the problem**\n\nThe offline mock provider is looking at "${prompt}".\n\n`,
+    `**Working through it**\n\nA real model would reason here, with ${thinkingBudget < 0 ? 'as many thinking tokens as it needs' : `up to ${thinkingBudget} thinking tokens`}.\n\n`,
+    '**Checking the answer**\n\nNothing to check, since this answer is canned.\n\n',
+  ];
+  const answer = '## Summary\n\nThis is a placeholder answer from the offline mock provider.\n\n'
+    + `## Approach\n\nThe mock streams a few thought summaries, then this answer in sections.\n\n`
+    + `## Solution\n\n${replyFor(prompt).text}\n`;
+  return (async function* () {
+    for (const thought of thoughts) {
+      await wait(MOCK_CHUNK_DELAY_MS * 20, signal);
+      yield toThoughtResponse(thought);
+    }
+    for (const piece of answer.match(/\S+\s*/g) || []) {
+      await wait(MOCK_CHUNK_DELAY_MS, signal);
+      yield toResponse(piece);
+    }
+    yield withUsage(toResponse(''), prompt, answer, thoughts.join(''));
+  })();
+};
+
+const createMockChat = (): ProviderChat => ({
+  sendMessage: async ({ message, config }) => {
+    await wait(MOCK_CHUNK_DELAY_MS, config?.abortSignal);
+    const { text, functionCalls } = replyFor(message);
+    return toResponse(text, functionCalls);
+  },
+  sendMessageStream: async ({ message, config }) => {
+    const { text, functionCalls } = replyFor(message);
+    const signal = config?.abortSignal;
+    return (async function* () {
+      // Split on word boundaries so the reply streams in roughly the way a real model's does.
+      for (const piece of text.match(/\S+\s*/g) || []) {
+        await wait(MOCK_CHUNK_DELAY_MS, signal);
+        yield toResponse(piece);
+      }
+      // The counts come last, on the function calls if there are any.
+      yield withUsage(toResponse('', functionCalls), promptText(message), text);
+    })();
+  },
+});
+
+// Live voice talks to scripts/mock-live-server.mjs (`npm run mock-live`) over a WebSocket,
+// using the JSON messages described at the top of that script.
+const LIVE_MOCK_URL = process.env.LIVE_MOCK_URL || 'ws://localhost:8787';
+
+const connectLive = (_voice: string, callbacks: LiveCallbacks) => new Promise<LiveSession>((resolve, reject) => {
+  const socket = new WebSocket(LIVE_MOCK_URL);
+  let isOpen = false;
+
+  socket.onopen = () => {
+    isOpen = true;
+    resolve({
+      sendAudio: (data) => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: 'audio', data }));
+      },
+      close: () => socket.close(),
+    });
+  };
+  socket.onerror = () => {
+    const error = new Error(`Could not reach the mock live server at ${LIVE_MOCK_URL}. Start it with "npm run mock-live".`);
+    if (isOpen) callbacks.onError(error);
+    else reject(error);
+  };
+  socket.onclose = () => {
+    if (isOpen) callbacks.onClose();
+  };
+  socket.onmessage = (event) => {
+    let message: { type: string, text?: string, data?: string };
+    try {
+      message = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+    switch (message.type) {
+      case 'audio': callbacks.onAudio(message.data || ''); break;
+      case 'inputTranscript': callbacks.onInputTranscript(message.text || ''); break;
+      case 'outputTranscript': callbacks.onOutputTranscript(message.text || ''); break;
+      case 'interrupted': callbacks.onInterrupted(); break;
+      case 'turnComplete': callbacks.onTurnComplete(); break;
+    }
+  };
+});
+
+export const mockProvider: ModelProvider = {
+  id: 'mock',
+  startChat: () => createMockChat(),
+  summarize: async (text) => text.trim().split(/\s+/).slice(0, 5).join(' ') || 'New Chat',
+  generateImage: async (prompt, aspectRatio) => placeholderImage(prompt, aspectRatio),
+  generateImages: async ({ prompt, aspectRatio, numberOfImages }) =>
+    Array.from({ length: numberOfImages }, (_, index) => placeholderImage(`${prompt} #${index + 1}`, aspectRatio)),
+  generateComplexText: async (prompt) => toResponse(replyFor(prompt).text),
+  streamComplexText,
+  combineImages: async (prompt, images) => images.length > 0
+    ? `data:${images[0].mimeType};base64,${images[0].base64}`
+    : placeholderImage(prompt),
+  // No edit is made offline; the source comes back unchanged.
+  inpaintImage: async (_prompt, image) => `data:${image.mimeType};base64,${image.base64}`,
+  generateGroundedText: async (prompt) => {
+    const { text } = replyFor(prompt);
+    return withUsage(toResponse(text, [], {
+      groundingMetadata: {
+        groundingChunks: [{ web: { uri: 'https://example.com/', title: 'Example source (mock)' } }],
+      },
+    }), prompt, text);
+  },
+  textToSpeech: async () => SILENT_AUDIO_B64,
+  connectLive,
+};
@@ -0,0 +1,101 @@
+import { Chat as GenAIChat, FunctionDeclaration, GenerateContentResponse } from '@google/genai';
+import { ChatMessage } from '../types';
+import { LiveVoice } from '../components/App';
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+import { hasApiKey } from './apiKey';
+
+// The subset of the SDK chat that the app relies on, so other backends can provide their own.
+export type ProviderChat = Pick<GenAIChat, 'sendMessage' | 'sendMessageStream'>;
+
+export interface ImagePayload {
+  base64: string;
+  mimeType: string;
+}
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  negativePrompt?: string; // What the images should not show
+  aspectRatio: string;
+  numberOfImages: number;
+}
+
+export interface ThinkingOptions {
+  thinkingBudget: number; // Tokens the model may spend thinking; -1 lets it decide
+  signal?: AbortSignal;
+}
+
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
+}
+
+export type ProviderId = 'gemini' | 'mock';
+
+// Events from a live voice session. Audio is base64 16-bit PCM, mono, at 24kHz.
+// Transcripts arrive in pieces and should be appended.
+export interface LiveCallbacks {
+  onAudio: (base64Pcm: string) => void;
+  onInputTranscript: (text: string) => void;
+  onOutputTranscript: (text: string) => void;
+  onInterrupted: () => void; // The user started talking over the reply; drop queued audio
+  onTurnComplete: () => void;
+  onError: (error: Error) => void;
+  onClose: () => void;
+}
+
+export interface LiveSession {
+  sendAudio: (base64Pcm: string) => void; // 16-bit PCM, mono, at 16kHz
+  close: () => void;
+}
+
+// Every model-backed feature in the app goes through this interface.
+export interface ModelProvider {
+  id: ProviderId;
+  // `tools` are the functions the model may call; see services/toolRegistry.
+  startChat: (history: ChatMessage[], tools?: FunctionDeclaration[]) => ProviderChat;
+  summarize: (text: string) => Promise<string>;
+  generateImage: (prompt: string, aspectRatio: string) => Promise<string>;
+  generateImages: (request: ImageGenerationRequest) => Promise<string[]>; // Data URLs
+  generateComplexText: (prompt: string) => Promise<GenerateContentResponse>;
+  // Streams thought summaries (parts with `thought: true`) followed by the answer.
+  streamComplexText: (prompt: string, options: ThinkingOptions) => Promise<AsyncGenerator<GenerateContentResponse>>;
+  combineImages: (prompt: string, images: ImagePayload[]) => Promise<string>;
+  // Edits only the part of `image` that is white in `mask`, a same-sized black and white PNG.
+  inpaintImage: (prompt: string, image: ImagePayload, mask: ImagePayload) => Promise<string>;
+  generateGroundedText: (prompt: string, useMaps: boolean, location?: GeoLocation) => Promise<GenerateContentResponse>;
+  textToSpeech: (text: string, voice: LiveVoice) => Promise<string>;
+  connectLive: (voice: LiveVoice, callbacks: LiveCallbacks) => Promise<LiveSession>;
+}
+
+const PROVIDER_OVERRIDE_KEY = 'intellecto-model-provider';
+
+const providers: Record<ProviderId, ModelProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+// Resolution order: a per-browser override in localStorage, then MODEL_PROVIDER from the
+// environment, then Gemini when an API key is available (see apiKey) and the offline mock
+// otherwise.
+export const resolveProviderId = (): ProviderId => {
+  try {
+    const override = localStorage.getItem(PROVIDER_OVERRIDE_KEY);
+    if (override === 'gemini' || override === 'mock') return override;
+  } catch (error) {
+    console.warn("Could not read model provider override:", error);
+  }
+  const configured = process.env.MODEL_PROVIDER;
+  if (configured === 'gemini' || configured === 'mock') return configured;
+  return hasApiKey() ? 'gemini' : 'mock';
+};
+
+export const modelProvider: ModelProvider = providers[resolveProviderId()];
+
+export const setModelProviderOverride = (id: ProviderId | null) => {
+  if (id) {
+    localStorage.setItem(PROVIDER_OVERRIDE_KEY, id);
+  } else {
+    localStorage.removeItem(PROVIDER_OVERRIDE_KEY);
+  }
+};
@@ -0,0 +1,41 @@
+import { ChatMessage, ChatSession } from '../types';
+
+// Messages written while the browser is offline wait in the chat as pending instead of
+// failing. The outbox is just those messages: `pendingSince` is saved with them in IndexedDB,
+// so it survives a reload, and sorting on it gives the order they were written in.
+
+export interface OutboxEntry {
+  sessionId: string;
+  message: ChatMessage;
+}
+
+export const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+// Calls `onChange` whenever the browser goes on- or offline. Returns the unsubscribe function.
+export const subscribeToConnectivity = (onChange: () => void) => {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+};
+
+export const getOutbox = (sessions: ChatSession[]): OutboxEntry[] =>
+  sessions
+    .flatMap(session => session.messages
+      .filter(message => message.pendingSince !== undefined)
+      .map(message => ({ sessionId: session.id, message })))
+    .sort((a, b) => a.message.pendingSince! - b.message.pendingSince!);
+
+// Where a pending message should go once it is sent. Two messages written offline form a
+// chain, but by the time the second goes out the first has a reply hanging off it, so the
+// second moves to the end of that reply.
+export const findSendParent = (session: ChatSession, message: ChatMessage): string | undefined => {
+  let parentId = message.parentId;
+  for (;;) {
+    const replies = session.messages.filter(m => m.parentId === parentId && m.id !== message.id && m.pendingSince === undefined);
+    if (replies.length === 0) return parentId;
+    parentId = replies[replies.length - 1].id;
+  }
+};
@@ -0,0 +1,165 @@
+import { ChatMessage, ChatSession } from '../types';
+
+// An in-memory inverted index over every message in every session (all branches). `update`
+// only re-tokenizes messages whose object identity changed, so keeping it in sync with the
+// session list on each render costs a pass over the message references, not over the text.
+
+export interface SearchResult {
+  sessionId: string;
+  messageId: string;
+  role: ChatMessage['role'];
+  score: number;
+  snippet: string;
+  highlights: Array<[number, number]>; // [start, end) ranges within `snippet`
+}
+
+interface IndexedDocument {
+  sessionId: string;
+  message: ChatMessage;
+  termCounts: Map<string, number>;
+  length: number;
+}
+
+export interface SearchIndex {
+  update: (sessions: ChatSession[]) => void;
+  search: (query: string, limit?: number) => SearchResult[];
+}
+
+// BM25 tuning constants.
+const K1 = 1.2;
+const B = 0.75;
+const SNIPPET_BEFORE = 50;
+const SNIPPET_LENGTH = 160;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const normalize = (value: string) => value.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+
+export const tokenize = (text: string): string[] => normalize(text).match(WORD_PATTERN) || [];
+
+const matchesQuery = (word: string, queryTerms: string[]) => {
+  const term = normalize(word);
+  return queryTerms.some(queryTerm => term.startsWith(queryTerm));
+};
+
+// Words are compared in normalized form so "cafe" still highlights "Café".
+const findHighlights = (text: string, queryTerms: string[]) => {
+  const highlights: Array<[number, number]> = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    if (matchesQuery(match[0], queryTerms)) highlights.push([match.index!, match.index! + match[0].length]);
+  }
+  return highlights;
+};
+
+const buildSnippet = (text: string, queryTerms: string[]) => {
+  const firstMatch = findHighlights(text, queryTerms)[0];
+  const start = firstMatch ? Math.max(0, firstMatch[0] - SNIPPET_BEFORE) : 0;
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const snippet = prefix + text.slice(start, end).replace(/\s+/g, ' ') + suffix;
+  return { snippet, highlights: findHighlights(snippet, queryTerms) };
+};
+
+export const createSearchIndex = (): SearchIndex => {
+  const documents = new Map<string, IndexedDocument>();
+  const postings = new Map<string, Set<string>>();
+  let totalLength = 0;
+
+  const removeDocument = (messageId: string) => {
+    const document = documents.get(messageId);
+    if (!document) return;
+    document.termCounts.forEach((_, term) => {
+      const ids = postings.get(term);
+      ids?.delete(messageId);
+      if (ids?.size === 0) postings.delete(term);
+    });
+    totalLength -= document.length;
+    documents.delete(messageId);
+  };
+
+  const addDocument = (sessionId: string, message: ChatMessage) => {
+    const tokens = tokenize(message.text);
+    const termCounts = new Map<string, number>();
+    tokens.forEach(token => termCounts.set(token, (termCounts.get(token) || 0) + 1));
+    termCounts.forEach((_, term) => {
+      let ids = postings.get(term);
+      if (!ids) {
+        ids = new Set();
+        postings.set(term, ids);
+      }
+      ids.add(message.id);
+    });
+    documents.set(message.id, { sessionId, message, termCounts, length: tokens.length });
+    totalLength += tokens.length;
+  };
+
+  const update = (sessions: ChatSession[]) => {
+    const seen = new Set<string>();
+    sessions.forEach(session => {
+      session.messages.forEach(message => {
+        seen.add(message.id);
+        const existing = documents.get(message.id);
+        if (existing && existing.message === message && existing.sessionId === session.id) return;
+        removeDocument(message.id);
+        addDocument(session.id, message);
+      });
+    });
+    Array.from(documents.keys()).forEach(id => {
+      if (!seen.has(id)) removeDocument(id);
+    });
+  };
+
+  // Every query word must match. The last word also matches as a prefix so results show up
+  // while the user is still typing it.
+  const search = (query: string, limit = 50): SearchResult[] => {
+    const queryTerms = tokenize(query);
+    if (queryTerms.length === 0 || documents.size === 0) return [];
+
+    const averageLength = totalLength / documents.size || 1;
+    const scores = new Map<string, number>();
+
+    for (let i = 0; i < queryTerms.length; i++) {
+      const queryTerm = queryTerms[i];
+      const isLast = i === queryTerms.length - 1;
+      const terms = isLast
+        ? Array.from(postings.keys()).filter(term => term.startsWith(queryTerm))
+        : postings.has(queryTerm) ? [queryTerm] : [];
+
+      const termScores = new Map<string, number>();
+      terms.forEach(term => {
+        const ids = postings.get(term)!;
+        const idf = Math.log(1 + (documents.size - ids.size + 0.5) / (ids.size + 0.5));
+        // Exact matches rank above prefix matches.
+        const weight = term === queryTerm ? 1 : 0.7;
+        ids.forEach(id => {
+          const document = documents.get(id)!;
+          const tf = document.termCounts.get(term)!;
+          const score = idf * weight * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * document.length / averageLength));
+          termScores.set(id, Math.max(termScores.get(id) || 0, score));
+        });
+      });
+
+      if (i === 0) {
+        termScores.forEach((score, id) => scores.set(id, score));
+      } else {
+        Array.from(scores.keys()).forEach(id => {
+          const score = termScores.get(id);
+          if (score === undefined) scores.delete(id);
+          else scores.set(id, scores.get(id)! + score);
+        });
+      }
+      if (scores.size === 0) return [];
+    }
+
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([id, score]) => {
+        const { sessionId, message } = documents.get(id)!;
+        return { sessionId, messageId: id, role: message.role, score, ...buildSnippet(message.text, queryTerms) };
+      });
+  };
+
+  return { update, search };
+};
@@ -0,0 +1,65 @@
+import { ChatSession } from '../types';
+
+// Pinning, tags and archiving for the sidebar. These are plain fields on ChatSession, so they
+// are saved, exported and imported along with the rest of the session.
+
+export type SessionChanges = Partial<Pick<ChatSession, 'title' | 'isPinned' | 'isArchived' | 'tags'>>;
+
+export interface SessionFilter {
+  tag: string | null;
+  showArchived: boolean;
+}
+
+export const ALL_SESSIONS: SessionFilter = { tag: null, showArchived: false };
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#/, '').replace(/\s+/g, '-').toLowerCase();
+
+// Accepts "work, #travel, side project" style input; spaces inside a tag become hyphens.
+export const parseTags = (input: string): string[] =>
+  Array.from(new Set(input.split(',').map(normalizeTag).filter(Boolean)));
+
+export const getAllTags = (sessions: ChatSession[]): string[] =>
+  Array.from(new Set(sessions.flatMap(session => session.tags || []))).sort();
+
+// Sessions to list for `filter`, pinned first and otherwise in their existing order.
+export const getVisibleSessions = (sessions: ChatSession[], filter: SessionFilter): ChatSession[] => {
+  const visible = sessions.filter(session =>
+    !!session.isArchived === filter.showArchived && (!filter.tag || !!session.tags?.includes(filter.tag))
+  );
+  return [...visible.filter(session => session.isPinned), ...visible.filter(session => !session.isPinned)];
+};
+
+// --- Text commands ---
+
+export type SessionCommand =
+  | { type: 'rename', title: string }
+  | { type: 'retitle' }
+  | { type: 'pin', isPinned: boolean }
+  | { type: 'archive', isArchived: boolean }
+  | { type: 'tag', tags: string[] }
+  | { type: 'untag', tags: string[] }
+  | { type: 'filter', filter: SessionFilter };
+
+const COMMAND_PATTERNS: Array<[RegExp, (match: RegExpMatchArray) => SessionCommand | null]> = [
+  [/^rename (?:this )?chat (?:to |as )?(.+)$/i, match => ({ type: 'rename', title: match[1].trim().replace(/^["']|["']$/g, '') })],
+  [/^re-?title (?:this )?chat$/i, () => ({ type: 'retitle' })],
+  [/^(un)?pin (?:this )?chat$/i, match => ({ type: 'pin', isPinned: !match[1] })],
+  [/^(un)?archive (?:this )?chat$/i, match => ({ type: 'archive', isArchived: !match[1] })],
+  [/^tag (?:this )?chat (?:as |with )?(.+)$/i, match => ({ type: 'tag', tags: parseTags(match[1]) })],
+  [/^untag (?:this )?chat (.+)$/i, match => ({ type: 'untag', tags: parseTags(match[1]) })],
+  [/^show (?:all )?chats tagged (.+)$/i, match => {
+    const [tag] = parseTags(match[1]);
+    return tag ? { type: 'filter', filter: { tag, showArchived: false } } : null;
+  }],
+  [/^show archived chats$/i, () => ({ type: 'filter', filter: { tag: null, showArchived: true } })],
+  [/^show all chats$/i, () => ({ type: 'filter', filter: ALL_SESSIONS })],
+];
+
+export const parseSessionCommand = (prompt: string): SessionCommand | null => {
+  const text = prompt.trim().replace(/[.!]$/, '');
+  for (const [pattern, toCommand] of COMMAND_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) return toCommand(match);
+  }
+  return null;
+};
@@ -0,0 +1,314 @@
+import { ChatMessage, ChatSession } from '../types';
+
+// IndexedDB-backed chat history. Each session and each message is its own record, so a
+// change to one message rewrites only that message, and images are kept as Blobs rather
+// than base64 strings. In memory the app keeps working with plain `ChatSession[]`.
+
+const DB_NAME = 'intellecto';
+const SESSIONS_STORE = 'sessions';
+const MESSAGES_STORE = 'messages';
+export const GENERATIONS_STORE = 'generations';
+export const STUDIO_PROJECTS_STORE = 'studioProjects';
+export const STUDIO_VERSIONS_STORE = 'studioVersions';
+const LEGACY_SESSIONS_KEY = 'intellecto-chat-sessions';
+
+interface SessionRecord extends Omit<ChatSession, 'messages'> {
+  position: number;
+}
+
+interface MessageRecord extends Omit<ChatMessage, 'image' | 'generatedImage'> {
+  sessionId: string;
+  position: number;
+  image?: Blob;
+  generatedImage?: Blob;
+}
+
+// --- Schema migrations ---
+// MIGRATIONS[n] upgrades a database at version n - 1 to version n. Migrations run inside the
+// versionchange transaction, so they may only chain requests on that transaction and must not
+// await anything else. To change the schema, append a migration; the highest key is the
+// current version.
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+const MIGRATIONS: Record<number, Migration> = {
+  // v1: create the stores and import the original localStorage format.
+  1: (db, transaction) => {
+    db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+    const messages = db.createObjectStore(MESSAGES_STORE, { keyPath: 'id' });
+    messages.createIndex('sessionId', 'sessionId');
+    importLegacySessions(transaction);
+  },
+  // v2: messages became a tree (see messageTree). Link each session's existing messages
+  // into a single chain in their saved order.
+  2: (db, transaction) => {
+    const messages = transaction.objectStore(MESSAGES_STORE);
+    const request = messages.getAll() as IDBRequest<MessageRecord[]>;
+    request.onsuccess = () => {
+      groupBySession(request.result).forEach(records => {
+        records.sort((a, b) => a.position - b.position).forEach((record, index) => {
+          if (index > 0 && !record.parentId) {
+            messages.put({ ...record, parentId: records[index - 1].id });
+          }
+        });
+      });
+    };
+  },
+  // v3: the image generator's gallery (see imageGallery).
+  3: (db) => {
+    db.createObjectStore(GENERATIONS_STORE, { keyPath: 'id' });
+  },
+  // v4: Image Studio projects and their version timelines (see studioProjects).
+  4: (db) => {
+    db.createObjectStore(STUDIO_PROJECTS_STORE, { keyPath: 'id' });
+  },
+  // v5: Image Studio versions moved into their own store, so changing which one is shown
+  // rewrites only the small project record (see studioProjects).
+  5: (db, transaction) => {
+    const versions = db.createObjectStore(STUDIO_VERSIONS_STORE, { keyPath: 'id' });
+    versions.createIndex('projectId', 'projectId');
+    const projects = transaction.objectStore(STUDIO_PROJECTS_STORE);
+    const request = projects.getAll() as IDBRequest<({ id: string, versions?: { id: string }[] })[]>;
+    request.onsuccess = () => {
+      request.result.forEach(({ versions: projectVersions = [], ...project }) => {
+        projectVersions.forEach((version, position) => versions.put({ ...version, projectId: project.id, position }));
+        projects.put(project);
+      });
+    };
+  },
+  // v6: Regenerate looks for `isTurnReply` instead of ID prefixes. Mark the model replies and
+  // turn errors saved before then, which App gave "model-" and "error-" IDs.
+  6: (db, transaction) => {
+    const messages = transaction.objectStore(MESSAGES_STORE);
+    const request = messages.getAll() as IDBRequest<MessageRecord[]>;
+    request.onsuccess = () => {
+      request.result.forEach(record => {
+        if (record.role === 'model' && /^(model|error)-/.test(record.id)) messages.put({ ...record, isTurnReply: true });
+      });
+    };
+  },
+};
+
+export const SCHEMA_VERSION = Math.max(...Object.keys(MIGRATIONS).map(Number));
+
+const importLegacySessions = (transaction: IDBTransaction) => {
+  const saved = localStorage.getItem(LEGACY_SESSIONS_KEY);
+  if (!saved) return;
+
+  let legacySessions: ChatSession[];
+  try {
+    legacySessions = JSON.parse(saved);
+  } catch (error) {
+    console.error("Could not parse legacy chat history, skipping import:", error);
+    return;
+  }
+
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+  const messages = transaction.objectStore(MESSAGES_STORE);
+  legacySessions.forEach((session, position) => {
+    sessions.put(toSessionRecord(session, position));
+    session.messages.forEach((message, messagePosition) => {
+      // Older saves could contain messages without IDs.
+      const id = message.id || `${message.role}-${Date.now()}-${Math.random()}`;
+      messages.put(toMessageRecord({ ...message, id }, session.id, messagePosition));
+    });
+  });
+
+  // Only drop the old copy once the whole import has been committed.
+  transaction.addEventListener('complete', () => localStorage.removeItem(LEGACY_SESSIONS_KEY));
+};
+
+// --- Record conversion ---
+
+const groupBySession = (records: MessageRecord[]) => {
+  const bySession = new Map<string, MessageRecord[]>();
+  records.forEach(record => {
+    const sessionRecords = bySession.get(record.sessionId) || [];
+    sessionRecords.push(record);
+    bySession.set(record.sessionId, sessionRecords);
+  });
+  return bySession;
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob | undefined => {
+  const match = /^data:([^;,]*)((?:;[^;,]*)*?)(;base64)?,(.*)$/s.exec(dataUrl);
+  if (!match) return undefined;
+  const [, mimeType, , base64, data] = match;
+  if (!base64) {
+    return new Blob([decodeURIComponent(data)], { type: mimeType });
+  }
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const toSessionRecord = ({ messages, ...session }: ChatSession, position: number): SessionRecord => ({
+  ...session,
+  position,
+});
+
+const toMessageRecord = (message: ChatMessage, sessionId: string, position: number): MessageRecord => {
+  const { image, generatedImage, isStreaming, ...rest } = message;
+  const record: MessageRecord = { ...rest, sessionId, position };
+  // A pending approval can't be answered after a reload; the tool call it belonged to is gone.
+  if (record.approval?.status === 'pending') record.approval = { ...record.approval, status: 'expired' };
+  // Blob URLs don't survive a reload, so there is nothing worth keeping for them.
+  const imageBlob = image ? dataUrlToBlob(image) : undefined;
+  if (imageBlob) record.image = imageBlob;
+  const generatedImageBlob = generatedImage ? dataUrlToBlob(generatedImage) : undefined;
+  if (generatedImageBlob) record.generatedImage = generatedImageBlob;
+  return record;
+};
+
+const fromMessageRecord = async (record: MessageRecord): Promise<ChatMessage> => {
+  const { sessionId, position, image, generatedImage, ...message } = record;
+  return {
+    ...message,
+    ...(image ? { image: await blobToDataUrl(image) } : {}),
+    ...(generatedImage ? { generatedImage: await blobToDataUrl(generatedImage) } : {}),
+  };
+};
+
+// --- IndexedDB plumbing ---
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error || new DOMException('Transaction aborted', 'AbortError'));
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Shared by every store in the database, so all of them go through one set of migrations.
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!('indexedDB' in window)) {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+      request.onupgradeneeded = (event) => {
+        const transaction = request.transaction!;
+        for (let version = event.oldVersion + 1; version <= SCHEMA_VERSION; version++) {
+          MIGRATIONS[version](request.result, transaction);
+        }
+      };
+      request.onsuccess = () => {
+        // Step aside when a newer version of the app in another tab needs to upgrade.
+        request.result.onversionchange = () => request.result.close();
+        resolve(request.result);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('Chat history is open in another tab with an older version of the app.'));
+    });
+    // Let a later call try again instead of caching the failure.
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// --- Public API ---
+
+// The sessions as last written, used to work out which records a new snapshot changes.
+let lastSaved: ChatSession[] = [];
+let pending: ChatSession[] | null = null;
+let inFlight: Promise<void> | null = null;
+
+export const loadSessions = async (): Promise<ChatSession[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, MESSAGES_STORE], 'readonly');
+  const [sessionRecords, messageRecords] = await Promise.all([
+    requestToPromise(transaction.objectStore(SESSIONS_STORE).getAll() as IDBRequest<SessionRecord[]>),
+    requestToPromise(transaction.objectStore(MESSAGES_STORE).getAll() as IDBRequest<MessageRecord[]>),
+  ]);
+
+  const recordsBySession = groupBySession(messageRecords);
+
+  const sessions = await Promise.all(
+    sessionRecords
+      .sort((a, b) => a.position - b.position)
+      .map(async ({ position, ...session }): Promise<ChatSession> => {
+        const records = (recordsBySession.get(session.id) || []).sort((a, b) => a.position - b.position);
+        return { ...session, messages: await Promise.all(records.map(fromMessageRecord)) };
+      })
+  );
+  lastSaved = sessions;
+  return sessions;
+};
+
+const writeChanges = async (previous: ChatSession[], next: ChatSession[]) => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, MESSAGES_STORE], 'readwrite');
+  const sessionStore = transaction.objectStore(SESSIONS_STORE);
+  const messageStore = transaction.objectStore(MESSAGES_STORE);
+
+  const previousSessions = new Map(previous.map((session, position) => [session.id, { session, position }]));
+  next.forEach((session, position) => {
+    const before = previousSessions.get(session.id);
+    previousSessions.delete(session.id);
+    if (before && before.session === session && before.position === position) return;
+
+    sessionStore.put(toSessionRecord(session, position));
+
+    const previousMessages = new Map((before?.session.messages || []).map((message, index) => [message.id, { message, index }]));
+    session.messages.forEach((message, index) => {
+      const beforeMessage = previousMessages.get(message.id);
+      previousMessages.delete(message.id);
+      if (!beforeMessage || beforeMessage.message !== message || beforeMessage.index !== index) {
+        messageStore.put(toMessageRecord(message, session.id, index));
+      }
+    });
+    previousMessages.forEach((_, id) => messageStore.delete(id));
+  });
+
+  // Whatever is left was deleted.
+  previousSessions.forEach(({ session }) => {
+    sessionStore.delete(session.id);
+    session.messages.forEach(message => messageStore.delete(message.id));
+  });
+
+  await transactionDone(transaction);
+};
+
+const flush = async () => {
+  while (pending) {
+    const next = pending;
+    pending = null;
+    await writeChanges(lastSaved, next);
+    lastSaved = next;
+  }
+};
+
+// Saves a snapshot of all sessions, writing only the records that changed since the last
+// successful save. Rapid calls (e.g. while a reply streams in) are coalesced. If a save
+// fails, the next call retries the same changes.
+export const persistSessions = (sessions: ChatSession[]): Promise<void> => {
+  pending = sessions;
+  if (!inFlight) {
+    inFlight = flush().finally(() => { inFlight = null; });
+  }
+  return inFlight;
+};
+
+export const describeStorageError = (error: unknown): string => {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return 'Browser storage is full, so your latest chat changes could not be saved. Delete some chats to free up space.';
+  }
+  const reason = error instanceof Error ? error.message : String(error);
+  return `Your latest chat changes could not be saved (${reason}). They may be lost if you reload.`;
+};
@@ -0,0 +1,178 @@
+import {
+  blobToDataUrl,
+  dataUrlToBlob,
+  openDatabase,
+  requestToPromise,
+  STUDIO_PROJECTS_STORE,
+  STUDIO_VERSIONS_STORE,
+  transactionDone,
+} from './sessionStore';
+
+// Image Studio projects. Every image in a project, uploaded or generated, is a version on its
+// timeline, so any of them can be looked at again, compared, downloaded or edited further.
+// Undo and redo only move which version is shown; nothing is ever dropped from the timeline.
+
+export interface StudioVersion {
+  id: string;
+  image: string; // Data URL
+  prompt?: string; // The instruction that produced it; unset for uploaded images
+  sourceIds: string[]; // The versions it was made from, the first being its "before"; empty for uploads
+  isMasked?: boolean; // Only a painted area of the first source was changed
+  createdAt: number;
+}
+
+export interface StudioProject {
+  id: string;
+  title: string;
+  versions: StudioVersion[]; // Oldest first
+  currentVersionId?: string; // The version shown as the result
+  sourceIds: string[]; // What the next edit starts from
+  updatedAt: number;
+}
+
+// Versions are stored apart from their project. They never change once made, so a save
+// writes only the ones that are new; undo, redo and the like rewrite just the project record.
+type StudioProjectRecord = Omit<StudioProject, 'versions'>;
+
+interface StudioVersionRecord extends Omit<StudioVersion, 'image'> {
+  projectId: string;
+  position: number; // Index on the timeline
+  image: Blob;
+}
+
+const UNTITLED = 'Untitled project';
+
+const newId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createProject = (): StudioProject => ({
+  id: newId('project'),
+  title: UNTITLED,
+  versions: [],
+  sourceIds: [],
+  updatedAt: Date.now(),
+});
+
+export const getVersion = (project: StudioProject, id?: string) => project.versions.find(version => version.id === id);
+
+export const getCurrentVersion = (project: StudioProject) => getVersion(project, project.currentVersionId);
+
+// The image a version was made from, for before/after comparisons.
+export const getBeforeVersion = (project: StudioProject, version: StudioVersion) => getVersion(project, version.sourceIds[0]);
+
+export const getSources = (project: StudioProject): StudioVersion[] =>
+  project.sourceIds.map(id => getVersion(project, id)).filter((version): version is StudioVersion => !!version);
+
+// Versions go back to the model as inline data, which must be base64. Results that aren't,
+// like the offline provider's SVG placeholders, are re-encoded before they're added.
+export const toBase64DataUrl = async (dataUrl: string): Promise<string> => {
+  if (/^data:[^,]*;base64,/.test(dataUrl)) return dataUrl;
+  const blob = dataUrlToBlob(dataUrl);
+  return blob ? blobToDataUrl(blob) : dataUrl;
+};
+
+// Uploads become sources straight away; results are shown, and used as sources only on request.
+export const addUploads = (project: StudioProject, images: string[]): StudioProject => {
+  const versions = images.map(image => ({ id: newId('upload'), image, sourceIds: [], createdAt: Date.now() }));
+  if (versions.length === 0) return project;
+  return {
+    ...project,
+    versions: [...project.versions, ...versions],
+    sourceIds: [...project.sourceIds, ...versions.map(version => version.id)],
+    currentVersionId: versions[versions.length - 1].id,
+    updatedAt: Date.now(),
+  };
+};
+
+export const addResult = (project: StudioProject, result: Omit<StudioVersion, 'id' | 'createdAt'>): StudioProject => {
+  const version: StudioVersion = { ...result, id: newId('version'), createdAt: Date.now() };
+  return {
+    ...project,
+    // The first instruction names the project.
+    title: project.title === UNTITLED && result.prompt ? result.prompt.slice(0, 60) : project.title,
+    versions: [...project.versions, version],
+    currentVersionId: version.id,
+    updatedAt: Date.now(),
+  };
+};
+
+// Moves the shown version back (-1) or forward (1) along the timeline.
+export const stepVersion = (project: StudioProject, offset: number): StudioProject => {
+  const index = project.versions.findIndex(version => version.id === project.currentVersionId);
+  const target = project.versions[index + offset];
+  return target ? { ...project, currentVersionId: target.id, updatedAt: Date.now() } : project;
+};
+
+export const selectVersion = (project: StudioProject, id: string): StudioProject =>
+  ({ ...project, currentVersionId: id, updatedAt: Date.now() });
+
+// Makes `id` the only source, so the next instruction builds on it.
+export const makeOnlySource = (project: StudioProject, id: string): StudioProject =>
+  ({ ...project, sourceIds: [id], updatedAt: Date.now() });
+
+export const removeSource = (project: StudioProject, id: string): StudioProject =>
+  ({ ...project, sourceIds: project.sourceIds.filter(sourceId => sourceId !== id), updatedAt: Date.now() });
+
+// --- Storage ---
+
+// The versions of each project that are already in the database.
+const storedVersionIds = new Map<string, Set<string>>();
+
+const toVersionRecord = ({ image, ...version }: StudioVersion, projectId: string, position: number): StudioVersionRecord | undefined => {
+  const blob = dataUrlToBlob(image);
+  return blob ? { ...version, projectId, position, image: blob } : undefined;
+};
+
+const fromVersionRecord = async ({ projectId, position, image, ...version }: StudioVersionRecord): Promise<StudioVersion> =>
+  ({ ...version, image: await blobToDataUrl(image) });
+
+// Most recently changed first.
+export const loadProjects = async (): Promise<StudioProject[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([STUDIO_PROJECTS_STORE, STUDIO_VERSIONS_STORE], 'readonly');
+  const [records, versionRecords] = await Promise.all([
+    requestToPromise(transaction.objectStore(STUDIO_PROJECTS_STORE).getAll() as IDBRequest<StudioProjectRecord[]>),
+    requestToPromise(transaction.objectStore(STUDIO_VERSIONS_STORE).getAll() as IDBRequest<StudioVersionRecord[]>),
+  ]);
+  const projects = await Promise.all(records.map(async (record): Promise<StudioProject> => {
+    const own = versionRecords.filter(version => version.projectId === record.id).sort((a, b) => a.position - b.position);
+    storedVersionIds.set(record.id, new Set(own.map(version => version.id)));
+    return { ...record, versions: await Promise.all(own.map(fromVersionRecord)) };
+  }));
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveProject = async (project: StudioProject): Promise<void> => {
+  const { versions, ...record } = project;
+  const stored = storedVersionIds.get(project.id) || new Set<string>();
+  const db = await openDatabase();
+  const transaction = db.transaction([STUDIO_PROJECTS_STORE, STUDIO_VERSIONS_STORE], 'readwrite');
+  const versionStore = transaction.objectStore(STUDIO_VERSIONS_STORE);
+  transaction.objectStore(STUDIO_PROJECTS_STORE).put(record);
+  const saved = new Set<string>();
+  versions.forEach((version, position) => {
+    if (stored.has(version.id)) {
+      saved.add(version.id);
+      return;
+    }
+    const versionRecord = toVersionRecord(version, project.id, position);
+    if (!versionRecord) return;
+    versionStore.put(versionRecord);
+    saved.add(version.id);
+  });
+  stored.forEach(id => {
+    if (!saved.has(id)) versionStore.delete(id);
+  });
+  await transactionDone(transaction);
+  storedVersionIds.set(project.id, saved);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([STUDIO_PROJECTS_STORE, STUDIO_VERSIONS_STORE], 'readwrite');
+  transaction.objectStore(STUDIO_PROJECTS_STORE).delete(id);
+  const versionStore = transaction.objectStore(STUDIO_VERSIONS_STORE);
+  const request = versionStore.index('projectId').getAllKeys(id);
+  request.onsuccess = () => request.result.forEach(key => versionStore.delete(key));
+  await transactionDone(transaction);
+  storedVersionIds.delete(id);
+};
@@ -0,0 +1,279 @@
+// Timers, alarms and stopwatches. They live outside React so chat tools and text commands can
+// create them, are saved to localStorage so they survive reloads, and keep ringing until
+// dismissed. TimerDisplay subscribes to show them and plays the alarm sound.
+
+export type TimerKind = 'timer' | 'alarm' | 'stopwatch';
+
+export interface Timer {
+  id: string;
+  kind: TimerKind;
+  label: string;
+  createdAt: number;
+  endsAt?: number; // Timers and alarms: when it goes off
+  durationMs?: number; // Timers: the full length, for the progress bar
+  startedAt?: number; // Stopwatches: when the current run started; unset while paused
+  elapsedMs?: number; // Stopwatches: time counted before the current run
+  firedAt?: number; // Set when a timer or alarm goes off; it rings until dismissed
+}
+
+type TimersListener = (timers: Timer[]) => void;
+
+const TIMERS_KEY = 'intellecto-timers';
+// setTimeout can't wait longer than this; later alarms are re-checked when it fires.
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const loadTimers = (): Timer[] => {
+  try {
+    const saved = localStorage.getItem(TIMERS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.warn("Could not load timers:", error);
+    return [];
+  }
+};
+
+let timers: Timer[] = loadTimers();
+const listeners = new Set<TimersListener>();
+let checkTimeout: number | undefined;
+let isStarted = false;
+
+const emit = () => listeners.forEach(listener => listener(timers));
+
+const setTimers = (next: Timer[]) => {
+  timers = next;
+  try {
+    localStorage.setItem(TIMERS_KEY, JSON.stringify(timers));
+  } catch (error) {
+    console.warn("Could not save timers:", error);
+  }
+  emit();
+  scheduleNextCheck();
+};
+
+const notify = (timer: Timer) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  try {
+    // The tag stops other open tabs from showing the same notification twice.
+    new Notification(timer.kind === 'alarm' ? 'Alarm' : 'Timer finished', { body: timer.label, tag: timer.id, requireInteraction: true });
+  } catch (error) {
+    console.warn("Could not show notification:", error);
+  }
+};
+
+const fireDueTimers = () => {
+  const now = Date.now();
+  const isDue = (timer: Timer) => timer.endsAt !== undefined && !timer.firedAt && timer.endsAt <= now;
+  const due = timers.filter(isDue);
+  if (due.length === 0) {
+    scheduleNextCheck();
+    return;
+  }
+  setTimers(timers.map(timer => (isDue(timer) ? { ...timer, firedAt: now } : timer)));
+  due.forEach(notify);
+};
+
+function scheduleNextCheck() {
+  window.clearTimeout(checkTimeout);
+  const upcoming = timers.filter(timer => timer.endsAt !== undefined && !timer.firedAt).map(timer => timer.endsAt!);
+  if (upcoming.length === 0) return;
+  const delay = Math.max(0, Math.min(...upcoming) - Date.now());
+  checkTimeout = window.setTimeout(fireDueTimers, Math.min(delay, MAX_TIMEOUT_MS));
+}
+
+// Starts watching for due timers. Background tabs delay timeouts, so also check when the tab
+// becomes visible again, and pick up timers changed in other tabs.
+const start = () => {
+  if (isStarted) return;
+  isStarted = true;
+  document.addEventListener('visibilitychange', fireDueTimers);
+  window.addEventListener('storage', event => {
+    if (event.key !== TIMERS_KEY) return;
+    timers = loadTimers();
+    emit();
+    scheduleNextCheck();
+  });
+  fireDueTimers();
+};
+
+// --- Public API ---
+
+export const getTimers = (): Timer[] => timers;
+
+export const subscribeTimers = (listener: TimersListener): (() => void) => {
+  start();
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+export const requestNotificationPermission = async () => {
+  if ('Notification' in window && Notification.permission === 'default') {
+    await Notification.requestPermission();
+  }
+};
+
+const createId = (kind: TimerKind) => `${kind}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+const addTimer = (timer: Timer): Timer => {
+  start();
+  setTimers([...timers, timer]);
+  requestNotificationPermission().catch(error => console.warn("Could not request notification permission:", error));
+  return timer;
+};
+
+export const startTimer = (durationMs: number, label?: string): Timer => {
+  const now = Date.now();
+  return addTimer({
+    id: createId('timer'),
+    kind: 'timer',
+    label: label || `${formatLength(durationMs)} timer`,
+    createdAt: now,
+    endsAt: now + durationMs,
+    durationMs,
+  });
+};
+
+// Sets an alarm for the next time the clock shows hours:minutes (local time).
+export const setAlarm = (hours: number, minutes: number, label?: string): Timer => {
+  const now = new Date();
+  const target = new Date(now);
+  target.setHours(hours, minutes, 0, 0);
+  if (target.getTime() <= now.getTime()) target.setDate(target.getDate() + 1);
+  return addTimer({
+    id: createId('alarm'),
+    kind: 'alarm',
+    label: label || `Alarm for ${formatClockTime(target.getTime())}`,
+    createdAt: now.getTime(),
+    endsAt: target.getTime(),
+  });
+};
+
+export const startStopwatch = (label?: string): Timer => {
+  const now = Date.now();
+  return addTimer({ id: createId('stopwatch'), kind: 'stopwatch', label: label || 'Stopwatch', createdAt: now, startedAt: now, elapsedMs: 0 });
+};
+
+const updateTimer = (id: string, update: (timer: Timer) => Timer) => {
+  setTimers(timers.map(timer => (timer.id === id ? update(timer) : timer)));
+};
+
+export const toggleStopwatch = (id: string) => updateTimer(id, timer => {
+  const now = Date.now();
+  return timer.startedAt
+    ? { ...timer, startedAt: undefined, elapsedMs: (timer.elapsedMs || 0) + now - timer.startedAt }
+    : { ...timer, startedAt: now };
+});
+
+export const resetStopwatch = (id: string) => updateTimer(id, timer => ({
+  ...timer,
+  elapsedMs: 0,
+  startedAt: timer.startedAt ? Date.now() : undefined,
+}));
+
+// Removes timers whether they are still counting or ringing.
+export const cancelTimers = (ids: string[]) => {
+  setTimers(timers.filter(timer => !ids.includes(timer.id)));
+};
+
+export const getRingingTimers = (): Timer[] => timers.filter(timer => timer.firedAt);
+
+// Finds timers by kind and/or words from their label, e.g. ('timer', 'pasta').
+export const findTimers = (kind?: TimerKind, query = ''): Timer[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return timers.filter(timer =>
+    (!kind || timer.kind === kind) && words.every(word => timer.label.toLowerCase().includes(word))
+  );
+};
+
+// --- Formatting ---
+
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+};
+
+// "1 h 30 min", "10 min", "45 sec"
+export const formatLength = (ms: number): string => {
+  const totalSeconds = Math.max(1, Math.round(ms / 1000));
+  const parts: string[] = [];
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours) parts.push(`${hours} h`);
+  if (minutes) parts.push(`${minutes} min`);
+  if (seconds) parts.push(`${seconds} sec`);
+  return parts.join(' ');
+};
+
+export const formatClockTime = (time: number) => new Date(time).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+export const getElapsedMs = (timer: Timer, now = Date.now()) =>
+  (timer.elapsedMs || 0) + (timer.startedAt ? now - timer.startedAt : 0);
+
+export const describeTimer = (timer: Timer, now = Date.now()): string => {
+  if (timer.firedAt) return `${timer.label}: ringing`;
+  switch (timer.kind) {
+    case 'timer': return `${timer.label}: ${formatDuration(timer.endsAt! - now)} left`;
+    case 'alarm': return `${timer.label}: rings at ${formatClockTime(timer.endsAt!)}`;
+    case 'stopwatch': return `${timer.label}: ${formatDuration(getElapsedMs(timer, now))}${timer.startedAt ? '' : ' (paused)'}`;
+  }
+};
+
+export const describeTimers = (list: Timer[] = timers): string =>
+  list.length === 0 ? 'You have no timers, alarms or stopwatches running.' : list.map(timer => `*   ${describeTimer(timer)}`).join('\n');
+
+// --- Text and voice commands ---
+
+export type TimerCommand =
+  | { type: 'list' }
+  | { type: 'cancel', kind: TimerKind, query: string, all: boolean }
+  | { type: 'dismiss' };
+
+const toKind = (word: string): TimerKind => (word.startsWith('alarm') ? 'alarm' : word.startsWith('stopwatch') ? 'stopwatch' : 'timer');
+
+// Recognizes the few timer commands that are handled without asking the model, which keeps
+// "stop the alarm" instant when said over a ringing alarm.
+export const parseTimerCommand = (prompt: string): TimerCommand | null => {
+  const text = prompt.trim().toLowerCase().replace(/[.!?]$/, '');
+  if (/^(?:list|show)(?: (?:my|all|the))? (?:timers|alarms|stopwatches)$/.test(text)
+    || /^what (?:timers|alarms) (?:are|do i have)(?: running| set)?$/.test(text)) {
+    return { type: 'list' };
+  }
+  // "Stop" only ever silences. Cancelling takes one of the other verbs, so "stop the alarm"
+  // with nothing ringing can't quietly delete an alarm that is still to come.
+  if (/^(?:stop|dismiss|silence|snooze)(?: the)? (?:alarm|timer)s?$/.test(text)) {
+    return { type: 'dismiss' };
+  }
+  const cancel = /^(?:cancel|delete|remove)(?: (?:the|my))?(?: (all))?(?: (.+?))? (timers?|alarms?|stopwatch(?:es)?)$/.exec(text);
+  if (cancel) {
+    const [, all, query = '', kindWord] = cancel;
+    return { type: 'cancel', kind: toKind(kindWord), query: all ? '' : query, all: !!all };
+  }
+  return null;
+};
+
+// Carries out a command and returns what to tell the user.
+export const runTimerCommand = (command: TimerCommand): string => {
+  switch (command.type) {
+    case 'list':
+      return describeTimers();
+    case 'dismiss': {
+      const ringing = getRingingTimers();
+      if (ringing.length === 0) return 'Nothing is ringing right now. To cancel an upcoming alarm or timer, say "cancel" and its name.';
+      cancelTimers(ringing.map(timer => timer.id));
+      return ringing.length === 1 ? `Stopped ${ringing[0].label}.` : `Stopped ${ringing.length} alarms.`;
+    }
+    case 'cancel': {
+      const matches = findTimers(command.kind, command.query);
+      if (matches.length === 0) return `I couldn't find a matching ${command.kind}.`;
+      if (matches.length > 1 && !command.all && !command.query) {
+        return `Which one? You have:\n\n${describeTimers(matches)}\n\nSay its name, or "cancel all ${command.kind}s".`;
+      }
+      cancelTimers(matches.map(timer => timer.id));
+      return `Cancelled ${matches.map(timer => timer.label).join(', ')}.`;
+    }
+  }
+};
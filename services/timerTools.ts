@@ -0,0 +1,161 @@
+import { Type } from '@google/genai';
+import { ChatTool } from './toolRegistry';
+import {
+  cancelTimers,
+  describeTimers,
+  findTimers,
+  formatClockTime,
+  formatLength,
+  getRingingTimers,
+  getTimers,
+  setAlarm,
+  startStopwatch,
+  startTimer,
+  TimerKind,
+} from './timerService';
+
+const setTimerTool: ChatTool = {
+  declaration: {
+    name: 'setTimer',
+    description: 'Starts a countdown timer, e.g. "set a 10 minute timer for the pasta".',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        durationSeconds: { type: Type.NUMBER, description: 'Length of the timer in seconds.' },
+        label: { type: Type.STRING, description: 'Optional short name, e.g. "Pasta".' },
+      },
+      required: ['durationSeconds'],
+    },
+  },
+  label: 'Timers',
+  runningText: ({ durationSeconds }) => `Setting a ${formatLength(Number(durationSeconds) * 1000)} timer...`,
+  execute: async ({ durationSeconds, label }) => {
+    const seconds = Number(durationSeconds);
+    if (!Number.isFinite(seconds) || seconds <= 0) {
+      throw new Error('The timer length must be a positive number of seconds.');
+    }
+    const timer = startTimer(seconds * 1000, label ? String(label) : undefined);
+    return {
+      display: { text: `Timer set: **${timer.label}**, done at ${formatClockTime(timer.endsAt!)}.` },
+      response: { id: timer.id, label: timer.label, endsAt: new Date(timer.endsAt!).toISOString() },
+    };
+  },
+};
+
+const setAlarmTool: ChatTool = {
+  declaration: {
+    name: 'setAlarm',
+    description: 'Sets an alarm for the next time the clock reaches a time of day, e.g. "wake me at 7:30".',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        time: { type: Type.STRING, description: 'Local time of day in 24-hour HH:MM format, e.g. "07:30".' },
+        label: { type: Type.STRING, description: 'Optional short name, e.g. "Wake up".' },
+      },
+      required: ['time'],
+    },
+  },
+  label: 'Alarms',
+  runningText: ({ time }) => `Setting an alarm for ${time}...`,
+  execute: async ({ time, label }) => {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(String(time).trim());
+    const hours = match ? Number(match[1]) : NaN;
+    const minutes = match ? Number(match[2]) : NaN;
+    if (!(hours >= 0 && hours < 24 && minutes >= 0 && minutes < 60)) {
+      throw new Error(`"${time}" is not a valid HH:MM time.`);
+    }
+    const alarm = setAlarm(hours, minutes, label ? String(label) : undefined);
+    return {
+      display: { text: `Alarm set: **${alarm.label}**, ${new Date(alarm.endsAt!).toLocaleString([], { weekday: 'long', hour: 'numeric', minute: '2-digit' })}.` },
+      response: { id: alarm.id, label: alarm.label, ringsAt: new Date(alarm.endsAt!).toISOString() },
+    };
+  },
+};
+
+const startStopwatchTool: ChatTool = {
+  declaration: {
+    name: 'startStopwatch',
+    description: 'Starts a stopwatch that counts up.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        label: { type: Type.STRING, description: 'Optional short name, e.g. "Run".' },
+      },
+    },
+  },
+  label: 'Stopwatches',
+  runningText: () => 'Starting a stopwatch...',
+  execute: async ({ label }) => {
+    const stopwatch = startStopwatch(label ? String(label) : undefined);
+    return {
+      display: { text: `Stopwatch started: **${stopwatch.label}**.` },
+      response: { id: stopwatch.id, label: stopwatch.label },
+    };
+  },
+};
+
+const listTimersTool: ChatTool = {
+  declaration: {
+    name: 'listTimers',
+    description: 'Lists the user\'s running timers, alarms and stopwatches.',
+  },
+  label: 'List timers',
+  runningText: () => 'Checking your timers...',
+  execute: async () => ({
+    display: { text: describeTimers() },
+    response: { timers: describeTimers(getTimers()) },
+  }),
+};
+
+const dismissTimerTool: ChatTool = {
+  declaration: {
+    name: 'dismissTimer',
+    description: 'Stops the timers and alarms that are ringing right now, e.g. "stop the alarm". Upcoming ones are left alone.',
+  },
+  label: 'Stop ringing alarms',
+  runningText: () => 'Stopping...',
+  execute: async () => {
+    const ringing = getRingingTimers();
+    cancelTimers(ringing.map(timer => timer.id));
+    return {
+      display: { text: ringing.length > 0 ? `Stopped ${ringing.map(timer => `**${timer.label}**`).join(', ')}.` : 'Nothing is ringing right now.' },
+      response: { stopped: ringing.map(timer => timer.label) },
+    };
+  },
+};
+
+const cancelTimerTool: ChatTool = {
+  declaration: {
+    name: 'cancelTimer',
+    description: 'Cancels timers, alarms or stopwatches before they finish. To stop one that is ringing, use dismissTimer instead.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        kind: { type: Type.STRING, description: 'Optional: timer, alarm or stopwatch.' },
+        label: { type: Type.STRING, description: 'Words from the name of the one to cancel.' },
+        all: { type: Type.BOOLEAN, description: 'Set to true, without a label, only when the user asks to cancel all of them.' },
+      },
+    },
+  },
+  label: 'Cancel timers',
+  runningText: () => 'Cancelling...',
+  execute: async ({ kind, label, all }) => {
+    const kindName = ['timer', 'alarm', 'stopwatch'].includes(String(kind)) ? kind as TimerKind : undefined;
+    const query = label ? String(label).trim() : '';
+    const matches = findTimers(kindName, query);
+    // Like the typed "cancel" command: without a name, more than one match needs asking about.
+    if (!query && all !== true && matches.length > 1) {
+      return {
+        display: { text: `Which one? You have:\n\n${describeTimers(matches)}` },
+        response: { cancelled: [], needsChoice: describeTimers(matches) },
+      };
+    }
+    cancelTimers(matches.map(timer => timer.id));
+    return {
+      display: { text: matches.length > 0 ? `Cancelled ${matches.map(timer => `**${timer.label}**`).join(', ')}.` : 'Nothing matched, so nothing was cancelled.' },
+      response: { cancelled: matches.map(timer => timer.label) },
+    };
+  },
+};
+
+export const TIMER_TOOLS: ChatTool[] = [setTimerTool, setAlarmTool, startStopwatchTool, listTimersTool, dismissTimerTool, cancelTimerTool];
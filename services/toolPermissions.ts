@@ -0,0 +1,38 @@
+// What to do when the model calls a tool with side effects (one that declares
+// `describeAction`): ask each time, always run it, or always refuse. Choices are kept per tool
+// in localStorage; tools without a saved choice ask.
+
+export type ToolPermission = 'ask' | 'allow' | 'deny';
+
+// The user's answer on an approval card.
+export type ApprovalDecision = 'once' | 'always' | 'deny';
+
+const TOOL_PERMISSIONS_KEY = 'intellecto-tool-permissions';
+
+export const loadToolPermissions = (): Record<string, ToolPermission> => {
+  try {
+    const saved = localStorage.getItem(TOOL_PERMISSIONS_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.warn("Could not load tool permissions:", error);
+    return {};
+  }
+};
+
+export const getToolPermission = (toolName: string): ToolPermission => loadToolPermissions()[toolName] || 'ask';
+
+// Saves the choice for one tool and returns the full, updated set.
+export const setToolPermission = (toolName: string, permission: ToolPermission): Record<string, ToolPermission> => {
+  const permissions = { ...loadToolPermissions() };
+  if (permission === 'ask') {
+    delete permissions[toolName];
+  } else {
+    permissions[toolName] = permission;
+  }
+  try {
+    localStorage.setItem(TOOL_PERMISSIONS_KEY, JSON.stringify(permissions));
+  } catch (error) {
+    console.warn("Could not save tool permissions:", error);
+  }
+  return permissions;
+};
@@ -0,0 +1,43 @@
+import { FunctionDeclaration } from '@google/genai';
+import { ChatMessage } from '../types';
+import { BUILT_IN_TOOLS } from './chatTools';
+import { TIMER_TOOLS } from './timerTools';
+
+// Tools the chat model can call. Each tool owns its declaration (what the model sees), its
+// handler, and the text shown in the chat while it runs. App runs whatever the model asks for
+// through `getTool` and sends the results back as function responses.
+
+export interface ToolContext {
+  sessionId: string;
+  signal: AbortSignal;
+}
+
+export interface ToolResult {
+  // Replaces the "running" message in the chat.
+  display: Pick<ChatMessage, 'text' | 'generatedImage'>;
+  // Sent back to the model as the function response. Keep it small: no image data.
+  response: Record<string, unknown>;
+}
+
+export interface ChatTool {
+  declaration: FunctionDeclaration & { name: string };
+  label: string; // Shown in settings
+  runningText: (args: Record<string, unknown>) => string;
+  // Set for tools with side effects outside the app. Describes exactly what the call will do;
+  // the user approves it first unless their permission for the tool says otherwise.
+  describeAction?: (args: Record<string, unknown>) => string;
+  execute: (args: Record<string, unknown>, context: ToolContext) => Promise<ToolResult>;
+}
+
+const tools = new Map<string, ChatTool>([...BUILT_IN_TOOLS, ...TIMER_TOOLS].map(tool => [tool.declaration.name, tool]));
+
+// Adds a tool, replacing any existing tool with the same name.
+export const registerTool = (tool: ChatTool) => {
+  tools.set(tool.declaration.name, tool);
+};
+
+export const getTool = (name: string | undefined): ChatTool | undefined => (name ? tools.get(name) : undefined);
+
+export const getTools = (): ChatTool[] => Array.from(tools.values());
+
+export const getToolDeclarations = (): FunctionDeclaration[] => Array.from(tools.values()).map(tool => tool.declaration);
@@ -0,0 +1,169 @@
+import { GenerateContentResponseUsageMetadata } from '@google/genai';
+import { TokenUsage } from '../types';
+
+// Token accounting from the `usageMetadata` on model responses. Chat replies keep their own
+// usage, and sessions keep a running total (see App). Every request is also added to a daily
+// log in localStorage, split by feature, which the usage panel reads.
+
+export type UsageFeature = 'chat' | 'imageEdit' | 'search' | 'tts' | 'complexTask';
+
+export const USAGE_FEATURES: Record<UsageFeature, string> = {
+  chat: 'Chat',
+  imageEdit: 'Image Studio',
+  search: 'Grounded search',
+  tts: 'Text to speech',
+  complexTask: 'Complex task',
+};
+
+export interface DailyUsage extends TokenUsage {
+  requests: number;
+}
+
+// Local date ("2026-10-18") -> feature -> totals for that day.
+export type UsageLog = Record<string, Partial<Record<UsageFeature, DailyUsage>>>;
+
+export interface UsageSettings {
+  inputCostPerMillion: number; // USD per million prompt tokens
+  outputCostPerMillion: number; // USD per million response and thinking tokens
+  dailyWarningTokens: number; // Warn once a day's total passes this; 0 turns the warning off
+}
+
+// Paid-tier list prices for gemini-2.5-flash. Other models cost more or less, hence the settings.
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  inputCostPerMillion: 0.3,
+  outputCostPerMillion: 2.5,
+  dailyWarningTokens: 1_000_000,
+};
+
+const USAGE_LOG_KEY = 'intellecto-usage-log';
+const USAGE_SETTINGS_KEY = 'intellecto-usage-settings';
+const DAYS_KEPT = 30;
+
+export const EMPTY_USAGE: TokenUsage = { promptTokens: 0, responseTokens: 0, thinkingTokens: 0 };
+
+export const toTokenUsage = (metadata?: GenerateContentResponseUsageMetadata): TokenUsage | undefined => {
+  if (!metadata) return undefined;
+  return {
+    promptTokens: metadata.promptTokenCount || 0,
+    responseTokens: metadata.candidatesTokenCount || 0,
+    thinkingTokens: metadata.thoughtsTokenCount || 0,
+  };
+};
+
+export const addUsage = (total: TokenUsage = EMPTY_USAGE, usage: TokenUsage): TokenUsage => ({
+  promptTokens: total.promptTokens + usage.promptTokens,
+  responseTokens: total.responseTokens + usage.responseTokens,
+  thinkingTokens: total.thinkingTokens + usage.thinkingTokens,
+});
+
+export const totalTokens = (usage: TokenUsage) => usage.promptTokens + usage.responseTokens + usage.thinkingTokens;
+
+// Thinking tokens are billed as output.
+export const estimateCost = (usage: TokenUsage, settings: UsageSettings) =>
+  (usage.promptTokens * settings.inputCostPerMillion + (usage.responseTokens + usage.thinkingTokens) * settings.outputCostPerMillion) / 1_000_000;
+
+export const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+// "1,200 prompt, 340 response, 0 thinking", for tooltips.
+export const describeUsage = (usage: TokenUsage) =>
+  `${formatTokens(usage.promptTokens)} prompt, ${formatTokens(usage.responseTokens)} response, ${formatTokens(usage.thinkingTokens)} thinking`;
+
+export const formatCost = (cost: number) => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+export const toDayKey = (date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// --- Daily log ---
+
+const listeners = new Set<() => void>();
+let cachedLog: UsageLog | null = null;
+
+// The same object until the log changes, so it can back useSyncExternalStore.
+export const loadUsageLog = (): UsageLog => {
+  if (cachedLog) return cachedLog;
+  try {
+    const saved = localStorage.getItem(USAGE_LOG_KEY);
+    cachedLog = saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.warn("Could not load the usage log:", error);
+    cachedLog = {};
+  }
+  return cachedLog!;
+};
+
+const saveUsageLog = (log: UsageLog) => {
+  cachedLog = log;
+  try {
+    localStorage.setItem(USAGE_LOG_KEY, JSON.stringify(log));
+  } catch (error) {
+    console.warn("Could not save the usage log:", error);
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeToUsage = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const recordUsage = (feature: UsageFeature, usage: TokenUsage | undefined) => {
+  if (!usage || totalTokens(usage) === 0) return;
+  const today = toDayKey();
+  const log = loadUsageLog();
+  const day = log[today] || {};
+  const previous = day[feature] || { ...EMPTY_USAGE, requests: 0 };
+  const updated: UsageLog = { ...log, [today]: { ...day, [feature]: { ...addUsage(previous, usage), requests: previous.requests + 1 } } };
+
+  // Days are "YYYY-MM-DD", so sorting the keys sorts them by date.
+  const days = Object.keys(updated).sort();
+  days.slice(0, Math.max(0, days.length - DAYS_KEPT)).forEach(oldDay => delete updated[oldDay]);
+  saveUsageLog(updated);
+};
+
+export const clearUsageLog = () => saveUsageLog({});
+
+export interface DayTotals {
+  day: string;
+  total: DailyUsage;
+  byFeature: Partial<Record<UsageFeature, DailyUsage>>;
+}
+
+// Newest day first.
+export const getDailyTotals = (log: UsageLog): DayTotals[] =>
+  Object.keys(log).sort().reverse().map(day => {
+    const byFeature = log[day];
+    const total = Object.values(byFeature).reduce<DailyUsage>(
+      (sum, usage) => ({ ...addUsage(sum, usage!), requests: sum.requests + usage!.requests }),
+      { ...EMPTY_USAGE, requests: 0 },
+    );
+    return { day, total, byFeature };
+  });
+
+export const getTodayTokens = (log: UsageLog) =>
+  Object.values(log[toDayKey()] || {}).reduce((sum, usage) => sum + totalTokens(usage!), 0);
+
+// True once a day's tokens reach the warning threshold, if one is set.
+export const isOverUsageThreshold = (tokens: number, settings: UsageSettings) =>
+  settings.dailyWarningTokens > 0 && tokens >= settings.dailyWarningTokens;
+
+// --- Settings ---
+
+export const loadUsageSettings = (): UsageSettings => {
+  try {
+    const saved = localStorage.getItem(USAGE_SETTINGS_KEY);
+    return saved ? { ...DEFAULT_USAGE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_USAGE_SETTINGS;
+  } catch (error) {
+    console.warn("Could not load usage settings:", error);
+    return DEFAULT_USAGE_SETTINGS;
+  }
+};
+
+export const saveUsageSettings = (settings: UsageSettings) => {
+  try {
+    localStorage.setItem(USAGE_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Could not save usage settings:", error);
+  }
+};
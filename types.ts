@@ -64,22 +64,51 @@ declare global {
 
 export enum FeatureMode {
   CHAT = 'CHAT',
+  IMAGE_GENERATE = 'IMAGE_GENERATE',
   IMAGE_EDIT = 'IMAGE_EDIT',
   GROUNDED_SEARCH = 'GROUNDED_SEARCH',
+  COMPLEX_TASK = 'COMPLEX_TASK',
+  LIVE = 'LIVE',
+  USAGE = 'USAGE',
+}
+
+// A side-effecting tool call waiting for, or decided by, the user. See services/toolPermissions.
+export interface ToolApproval {
+  toolName: string;
+  action: string; // The exact action, e.g. "Open Email: mailto:someone@example.com"
+  status: 'pending' | 'allowed' | 'denied' | 'expired';
+}
+
+// Token counts from a response's usageMetadata. See services/usage.
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+  thinkingTokens: number;
 }
 
 export interface ChatMessage {
   id: string;
+  parentId?: string; // The message this one follows; unset only for a session's first message
   role: 'user' | 'model';
   text: string;
   image?: string; // User uploaded image
   generatedImage?: string; // AI generated image
   sources?: { uri: string; title: string }[];
   isError?: boolean;
+  isStreaming?: boolean; // Model reply still arriving
+  isTurnReply?: boolean; // The model's answer to a prompt, or the error that ended the turn; these can be regenerated
+  pendingSince?: number; // Written while offline; when it joined the outbox (see services/outbox)
+  usage?: TokenUsage; // What the request that produced this reply used
+  approval?: ToolApproval;
 }
 
 export interface ChatSession {
   id: string;
   title: string;
-  messages: ChatMessage[];
+  messages: ChatMessage[]; // Every message in every branch, see services/messageTree
+  activeBranches?: Record<string, string>; // Parent message ID -> ID of the child being shown
+  isPinned?: boolean; // Listed above unpinned chats
+  isArchived?: boolean; // Hidden from the sidebar unless archived chats are shown
+  tags?: string[]; // Lower-case, see services/sessionOrganization
+  usage?: TokenUsage; // Added up over every request made in this chat
 }
\ No newline at end of file
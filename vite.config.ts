@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MODEL_PROVIDER': JSON.stringify(env.MODEL_PROVIDER),
+        'process.env.LIVE_MOCK_URL': JSON.stringify(env.LIVE_MOCK_URL)
       },
       resolve: {
         alias: {